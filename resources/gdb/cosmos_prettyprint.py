@@ -4,8 +4,22 @@
 # already knows the field layout (String._stringLength, __Array<T>.m_Data, etc).
 # These printers render those layouts as C# values rather than raw structs.
 
+import json
+import re
+
 import gdb
 
+# MethodTable address -> managed type name, from the type map the extension
+# writes next to the kernel ELF (see cosmos_load_type_map).
+_method_tables = {}
+# Type name -> gdb.Type (None when gdb has no such type).
+_gdb_types = {}
+
+TYPE_MAP_VERSION = 1
+
+# Elements shown for one collection; gdb fetches children one by one.
+MAX_CHILDREN = 1000
+
 
 def _read_utf16(addr, length):
     if length <= 0:
@@ -69,24 +83,371 @@ class ArrayPrinter:
         return "array"
 
 
-class ObjectPrinter:
-    """System.Object: surface the MethodTable* address so users can chase types.
+def cosmos_load_type_map(path):
+    """Called by the extension at session start and after a restart."""
+    global _method_tables
+    with open(path, encoding="utf-8") as f:
+        data = json.load(f)
+    if data.get("version") != TYPE_MAP_VERSION:
+        raise gdb.GdbError("cosmos: unsupported type map version {}".format(data.get("version")))
+    _method_tables = {int(addr, 16): name for addr, name in data.get("methodTables", {}).items()}
+    _gdb_types.clear()
 
-    A future iteration will resolve m_pEEType -> dynamic type name via a
-    build-time address map and downcast accordingly.
-    """
 
-    def __init__(self, val):
+def _lookup_managed_type(name):
+    """The DWARF type for a dotted managed name. ILC's DWARF may name types
+    by their namespace scope or just by the short name, so try each."""
+    if name in _gdb_types:
+        return _gdb_types[name]
+    generic = name.find("<")
+    short = name[name.rfind(".", 0, generic if generic >= 0 else len(name)) + 1:]
+    found = None
+    for candidate in (name.replace(".", "::"), name, short):
+        try:
+            found = gdb.lookup_type(candidate)
+            break
+        except gdb.error:
+            continue
+    _gdb_types[name] = found
+    return found
+
+
+def _object_address(val):
+    if val.type.code == gdb.TYPE_CODE_PTR:
+        return int(val)
+    return int(val.address)
+
+
+def _runtime_type(val):
+    """(type name, object value cast to its runtime type or None), or None
+    when the object is null or its MethodTable is not in the map."""
+    if _object_address(val) == 0:
+        return None
+    v = val.dereference() if val.type.code == gdb.TYPE_CODE_PTR else val
+    name = _method_tables.get(int(v["m_pEEType"]))
+    if name is None:
+        return None
+    t = _lookup_managed_type(name)
+    if t is None:
+        return name, None
+    address = _object_address(val)
+    if not _has_object_header(t):
+        # A boxed value type: its fields follow the MethodTable pointer.
+        address += gdb.lookup_type("void").pointer().sizeof
+    return name, gdb.Value(address).cast(t.pointer()).dereference()
+
+
+def _has_object_header(t):
+    """Reference types derive from Object and start with m_pEEType; value
+    types have no header."""
+    for f in t.strip_typedefs().fields():
+        if f.name == "m_pEEType":
+            return True
+        if f.is_base_class and _has_object_header(f.type):
+            return True
+    return False
+
+
+def _fields(v):
+    """Instance fields of `v`, base classes flattened like the .NET debugger
+    shows them, minus the object header."""
+    for f in v.type.fields():
+        if f.is_base_class:
+            for child in _fields(v.cast(f.type)):
+                yield child
+        # Static members have no bitpos.
+        elif f.name and f.name != "m_pEEType" and hasattr(f, "bitpos"):
+            yield f.name, v[f]
+
+
+class ObjectPrinter:
+    """System.Object references: m_pEEType is resolved through the type map
+    to the object's runtime type, whose fields are shown as children."""
+
+    def __init__(self, val, runtime):
         self.val = val
+        self.runtime = runtime
 
     def to_string(self):
         try:
+            if _object_address(self.val) == 0:
+                return "null"
+            if self.runtime is not None:
+                return "{{{}}}".format(self.runtime[0])
             v = self.val.dereference() if self.val.type.code == gdb.TYPE_CODE_PTR else self.val
-            mt = int(v["m_pEEType"])
-            return "Object {{ MethodTable = 0x{:016x} }}".format(mt)
+            return "Object {{ MethodTable = 0x{:016x} }}".format(int(v["m_pEEType"]))
+        except gdb.MemoryError:
+            return "<unreadable object>"
         except Exception:
             return "<Object>"
 
+    def children(self):
+        if self.runtime is None or self.runtime[1] is None:
+            return
+        try:
+            for child in _fields(self.runtime[1]):
+                yield child
+        except Exception:
+            return
+
+
+def _deref(val):
+    return val.dereference() if val.type.code == gdb.TYPE_CODE_PTR else val
+
+
+class _ObjectView:
+    """Base for printers of reference types that may be null."""
+
+    def __init__(self, val):
+        self.val = val
+        self.obj = None if val.type.code == gdb.TYPE_CODE_PTR and int(val) == 0 else _deref(val)
+
+    def to_string(self):
+        if self.obj is None:
+            return "null"
+        try:
+            return self.summary()
+        except gdb.MemoryError:
+            return "<unreadable>"
+        except Exception as e:
+            return "<{}>".format(e)
+
+    def children(self):
+        if self.obj is None:
+            return
+        try:
+            for child in self.elements():
+                yield child
+        except Exception:
+            return
+
+
+def _array_data(array_ref):
+    """(m_Data, length) of a managed array reference; (None, 0) when null."""
+    if int(array_ref) == 0:
+        return None, 0
+    arr = array_ref.dereference()
+    return arr["m_Data"], int(arr["m_NumComponents"])
+
+
+class ListPrinter(_ObjectView):
+    """List<T>: the first _size slots of _items."""
+
+    def summary(self):
+        return "Count = {}".format(int(self.obj["_size"]))
+
+    def elements(self):
+        data, _ = _array_data(self.obj["_items"])
+        for i in range(min(int(self.obj["_size"]), MAX_CHILDREN)):
+            yield "[{}]".format(i), data[i]
+
+    def display_hint(self):
+        return "array"
+
+
+class StackPrinter(_ObjectView):
+    """Stack<T>: _array[0.._size), shown top first like the .NET debugger."""
+
+    def summary(self):
+        return "Count = {}".format(int(self.obj["_size"]))
+
+    def elements(self):
+        data, _ = _array_data(self.obj["_array"])
+        size = int(self.obj["_size"])
+        for i in range(min(size, MAX_CHILDREN)):
+            yield "[{}]".format(i), data[size - 1 - i]
+
+    def display_hint(self):
+        return "array"
+
+
+class QueuePrinter(_ObjectView):
+    """Queue<T>: a ring buffer of _size elements starting at _head."""
+
+    def summary(self):
+        return "Count = {}".format(int(self.obj["_size"]))
+
+    def elements(self):
+        data, capacity = _array_data(self.obj["_array"])
+        head = int(self.obj["_head"])
+        for i in range(min(int(self.obj["_size"]), MAX_CHILDREN)):
+            yield "[{}]".format(i), data[(head + i) % capacity]
+
+    def display_hint(self):
+        return "array"
+
+
+class DictionaryPrinter(_ObjectView):
+    """Dictionary<K,V>: the used slots of _entries (a freed slot's `next`
+    is below -1), as key/value pairs."""
+
+    def summary(self):
+        return "Count = {}".format(int(self.obj["_count"]) - int(self.obj["_freeCount"]))
+
+    def elements(self):
+        data, _ = _array_data(self.obj["_entries"])
+        shown = 0
+        for i in range(int(self.obj["_count"])):
+            if shown >= MAX_CHILDREN:
+                break
+            entry = data[i]
+            if int(entry["next"]) < -1:
+                continue
+            yield "[{}].key".format(shown), entry["key"]
+            yield "[{}].value".format(shown), entry["value"]
+            shown += 1
+
+    def display_hint(self):
+        return "map"
+
+
+class SpanPrinter:
+    """Span<T> and ReadOnlySpan<T>: _length elements from _reference (a
+    ByReference<T> wrapper on older runtimes)."""
+
+    def __init__(self, val):
+        self.val = _deref(val)
+
+    def _start(self):
+        ref = self.val["_reference"]
+        if ref.type.strip_typedefs().code == gdb.TYPE_CODE_STRUCT:
+            ref = ref["_value"]
+        return ref
+
+    def to_string(self):
+        try:
+            return "Length = {}".format(int(self.val["_length"]))
+        except Exception:
+            return "<span>"
+
+    def children(self):
+        try:
+            start = self._start()
+            for i in range(min(int(self.val["_length"]), MAX_CHILDREN)):
+                yield "[{}]".format(i), start[i]
+        except Exception:
+            return
+
+    def display_hint(self):
+        return "array"
+
+
+class NullablePrinter:
+    """Nullable<T>: the value itself, or null."""
+
+    def __init__(self, val):
+        self.val = _deref(val)
+
+    def to_string(self):
+        try:
+            return self.val["value"] if bool(self.val["hasValue"]) else "null"
+        except Exception:
+            return "<nullable>"
+
+
+class PrimitivePrinter:
+    """Int32, Boolean, Char and the other primitive structs (mostly seen
+    boxed): the m_value they wrap."""
+
+    def __init__(self, val):
+        self.val = _deref(val)
+
+    def to_string(self):
+        try:
+            return self.val["m_value"]
+        except Exception:
+            return "<primitive>"
+
+
+class EnumPrinter:
+    """Enums as ILC emits them, a struct with `value__`: the member name
+    (or names, for flags) when the constants are in the debug info,
+    otherwise the number."""
+
+    def __init__(self, val):
+        self.val = _deref(val)
+
+    def _members(self):
+        members = []
+        for f in self.val.type.strip_typedefs().fields():
+            if hasattr(f, "bitpos") or not f.name:
+                continue
+            try:
+                member = self.val[f.name]
+                if member.type.strip_typedefs().code == gdb.TYPE_CODE_STRUCT:
+                    member = member["value__"]
+                members.append((f.name, int(member)))
+            except Exception:
+                continue
+        return members
+
+    def to_string(self):
+        try:
+            number = int(self.val["value__"])
+        except Exception:
+            return "<enum>"
+        members = self._members()
+        for name, value in members:
+            if value == number:
+                return name
+        flags = [(name, value) for name, value in members if value > 0 and value & (value - 1) == 0]
+        names = [name for name, value in flags if number & value]
+        if names and sum(value for _, value in flags if number & value) == number:
+            return " | ".join(names)
+        return str(number)
+
+
+class StringBuilderPrinter(_ObjectView):
+    """StringBuilder: its chunks, linked newest first through
+    m_ChunkPrevious, joined into one string."""
+
+    def summary(self):
+        chunks = []
+        sb = self.obj
+        while sb is not None and len(chunks) < MAX_CHILDREN:
+            length = int(sb["m_ChunkLength"])
+            data, _ = _array_data(sb["m_ChunkChars"])
+            if length > 0 and data is not None:
+                chunks.append(_read_utf16(int(data.address), length))
+            previous = sb["m_ChunkPrevious"]
+            sb = None if int(previous) == 0 else previous.dereference()
+        return "".join(reversed(chunks))
+
+    def display_hint(self):
+        return "string"
+
+
+# Generic BCL types by name without namespace or arity.
+_GENERIC_PRINTERS = {
+    "List": ListPrinter,
+    "Stack": StackPrinter,
+    "Queue": QueuePrinter,
+    "Dictionary": DictionaryPrinter,
+    "Span": SpanPrinter,
+    "ReadOnlySpan": SpanPrinter,
+    "Nullable": NullablePrinter,
+}
+
+# Instance field names by type name, for the primitive/enum checks.
+_field_names = {}
+
+
+def _generic_name(name):
+    """`System.Collections.Generic.List<Int32>` or `List`1<Int32>` -> `List`."""
+    base = name.split("<", 1)[0]
+    base = base.rsplit("::", 1)[-1].rsplit(".", 1)[-1]
+    return re.sub(r"`\d+$", "", base)
+
+
+def _instance_fields(t):
+    key = t.name
+    if key in _field_names:
+        return _field_names[key]
+    names = [f.name for f in t.strip_typedefs().fields() if hasattr(f, "bitpos") and not f.is_base_class]
+    if key:
+        _field_names[key] = names
+    return names
+
 
 def _strip_ref_ptr(t):
     while t.code in (gdb.TYPE_CODE_REF, gdb.TYPE_CODE_PTR):
@@ -94,19 +455,47 @@ def _strip_ref_ptr(t):
     return t
 
 
+def _layout_printer(name, val):
+    """Printers chosen by the DWARF type: its name, or for primitives and
+    enums the one field they wrap."""
+    if name == "String":
+        return StringPrinter(val)
+    if name.startswith("__Array<"):
+        return ArrayPrinter(val)
+    if "<" in name:
+        printer = _GENERIC_PRINTERS.get(_generic_name(name))
+        return printer(val) if printer else None
+    if _generic_name(name) == "StringBuilder":
+        return StringBuilderPrinter(val)
+    t = _strip_ref_ptr(val.type).unqualified()
+    if t.strip_typedefs().code == gdb.TYPE_CODE_STRUCT:
+        fields = _instance_fields(t)
+        if fields == ["m_value"]:
+            return PrimitivePrinter(val)
+        if fields == ["value__"]:
+            return EnumPrinter(val)
+    return None
+
+
 def cosmos_lookup(val):
     try:
         t = _strip_ref_ptr(val.type).unqualified()
     except Exception:
         return None
     name = t.name or ""
-    if name == "String":
-        return StringPrinter(val)
     if name == "Object":
-        return ObjectPrinter(val)
-    if name.startswith("__Array<"):
-        return ArrayPrinter(val)
-    return None
+        try:
+            runtime = _runtime_type(val)
+        except Exception:
+            runtime = None
+        # Strings, collections and boxed values held as Object get their
+        # own printers.
+        if runtime is not None and runtime[1] is not None:
+            inner = _layout_printer(runtime[1].type.unqualified().name or "", runtime[1])
+            if inner is not None:
+                return inner
+        return ObjectPrinter(val, runtime)
+    return _layout_printer(name, val)
 
 
 def register():
@@ -5,78 +5,317 @@ import { getProjectInfo } from '../utils/project';
 import { getEnvWithDotnetTools, getCommandPath } from '../utils/execution';
 import { getBuildChannel } from '../utils/output';
 import { LogProcessor } from '../utils/logProcessor';
+import { BuildDiagnosticsCollector } from '../utils/buildDiagnostics';
+import { checkKernelUpToDate } from '../utils/upToDate';
+import { getBuildSupervisor, BuildPhaseTracker } from '../utils/buildSupervisor';
+import { killProcessTree } from '../utils/processTree';
+import { formatBytes } from '../utils/kernelSize';
+import { recordKernelSize } from './kernelSize';
+import { resolveKernelElf } from '../utils/kernelArtifacts';
+import { ensureTypeMap } from '../utils/typeMap';
+import { showKernelSizeReport } from '../ui/kernelSizeWebview';
+import {
+    BuildConfiguration, BUILD_CONFIGURATIONS, getBuildConfiguration, setBuildConfiguration
+} from '../utils/buildConfiguration';
 
-export async function buildCommand(arch?: string) {
-    const buildChannel = getBuildChannel();
-    const processor = new LogProcessor(buildChannel, true);
+/**
+ * Arguments accepted by `cosmos.build` (and executeBuild). Anything left out
+ * falls back to the project's architecture and the workspace's active build
+ * configuration, so keybindings, tasks and other commands can build without
+ * a prompt.
+ */
+export interface BuildOptions {
+    arch?: string;
+    configuration?: BuildConfiguration;
+    /** `verbose` (the default) streams the full MSBuild log to the build channel. */
+    verbosity?: 'normal' | 'verbose';
+    /** Extra MSBuild properties, passed through as `-p:Name=Value`. */
+    properties?: { [name: string]: string };
+}
+
+/**
+ * `cosmos.build` entry point. The tree view and older callers pass just an
+ * arch string; keybindings and executeCommand can pass a BuildOptions object.
+ */
+export async function buildCommand(options?: string | BuildOptions) {
+    const opts: BuildOptions = typeof options === 'string' ? { arch: options } : (options ?? {});
 
-    // Get project info first to use configured architecture as default
     const projectInfo = getProjectInfo();
     if (!projectInfo) {
         vscode.window.showErrorMessage('No Cosmos project found');
         return;
     }
 
-    if (!arch) {
-        // Use project's configured architecture as default
-        arch = projectInfo.arch;
+    // An explicit configuration becomes the workspace's active one, the same
+    // as picking it in the status bar.
+    if (opts.configuration) {
+        await setBuildConfiguration(opts.configuration);
     }
 
-    const config = await vscode.window.showQuickPick(
-        [
-            { label: 'Debug', description: 'Debug build with symbols' },
-            { label: 'Release', description: 'Optimized release build' }
-        ],
+    const arch = opts.arch || projectInfo.arch;
+    const result = await executeBuild(projectInfo, { ...opts, arch });
+    if (result.success) {
+        const size = result.kernelSize;
+        if (!size) {
+            vscode.window.showInformationMessage(`Build completed: ${projectInfo.name} (${arch})`);
+            return;
+        }
+        const elf = size.comparison?.elf;
+        const change = elf && elf.delta !== 0
+            ? ` (${elf.delta > 0 ? '+' : '-'}${formatBytes(Math.abs(elf.delta))})`
+            : '';
+        vscode.window.showInformationMessage(
+            `Build completed: ${projectInfo.name} (${arch}), ELF ${formatBytes(size.report.elfSize)}${change}`,
+            'Kernel Size'
+        ).then(selection => {
+            if (selection === 'Kernel Size') {
+                showKernelSizeReport(size.report, size.comparison);
+            }
+        });
+    } else if (!result.cancelled) {
+        reportBuildFailure(result);
+    }
+}
+
+export async function selectBuildConfigurationCommand(): Promise<void> {
+    const current = getBuildConfiguration();
+    const picked = await vscode.window.showQuickPick(
+        BUILD_CONFIGURATIONS.map(c => ({
+            ...c,
+            description: c.label === current ? `${c.description} (active)` : c.description
+        })),
         { placeHolder: 'Select build configuration' }
     );
+    if (picked) {
+        await setBuildConfiguration(picked.label);
+    }
+}
+
+/**
+ * Command line for `cosmos build`. Shared with the `cosmos` task provider so
+ * a task and the command build exactly the same thing.
+ */
+export function getCosmosBuildArgs(projectDir: string, arch: string, options: BuildOptions = {}): string[] {
+    const args = [
+        'build',
+        '-p', projectDir,
+        '-a', arch,
+        '-c', options.configuration ?? getBuildConfiguration()
+    ];
+    if ((options.verbosity ?? 'verbose') === 'verbose') {
+        args.push('-v');
+    }
+    const properties = Object.entries(options.properties ?? {});
+    if (properties.length > 0) {
+        // Everything after `--` is forwarded to dotnet build.
+        args.push('--', ...properties.map(([name, value]) => `-p:${name}=${value}`));
+    }
+    return args;
+}
 
-    if (!config) return;
+export interface BuildResult {
+    success: boolean;
+    cancelled: boolean;
+    exitCode: number | null;
+    /** Errors published to the Problems panel. */
+    errors: number;
+    /** Size report recorded for a successful build. */
+    kernelSize?: ReturnType<typeof recordKernelSize>;
+}
+
+/**
+ * Runs `cosmos build` for the project through the build supervisor: one
+ * build at a time, with a cancellable progress notification that follows the
+ * build's phases. Output streams to the build channel and errors to the
+ * Problems panel. `reason` is appended to the notification title.
+ */
+export async function executeBuild(
+    projectInfo: { name: string; csproj: string; arch: string },
+    options: BuildOptions = {},
+    reason?: string
+): Promise<BuildResult> {
+    const arch = options.arch || projectInfo.arch;
+    const configuration = options.configuration ?? getBuildConfiguration();
+    const title = `Building ${projectInfo.name} (${arch}, ${configuration})${reason ? `: ${reason}` : ''}`;
 
+    const result = await getBuildSupervisor().run(title, (progress, token) =>
+        spawnBuild(projectInfo, arch, { ...options, configuration }, progress, token)
+    );
+    if (!result) {
+        // Rejected because another build is running (cosmos.concurrentBuilds).
+        return { success: false, cancelled: true, exitCode: null, errors: 0 };
+    }
+    if (result.success) {
+        result.kernelSize = recordKernelSize(projectInfo, arch, configuration);
+        recordTypeMap(projectInfo, arch, configuration);
+    }
+    return result;
+}
+
+// MethodTable → type name map the gdb printers use to show an object's
+// runtime type. Sessions regenerate it if missing, so failures are not fatal.
+function recordTypeMap(projectInfo: { name: string; csproj: string }, arch: string, configuration: string): void {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        return;
+    }
+    const elfPath = resolveKernelElf(workspaceFolder.uri.fsPath, path.dirname(projectInfo.csproj), projectInfo.name, arch, configuration);
+    if (!elfPath) {
+        return;
+    }
+    try {
+        ensureTypeMap(elfPath);
+    } catch (err: any) {
+        getBuildChannel().appendLine(`Type map skipped: ${err?.message || err}`);
+    }
+}
+
+function spawnBuild(
+    projectInfo: { name: string; csproj: string },
+    arch: string,
+    options: BuildOptions,
+    progress: vscode.Progress<{ message?: string }>,
+    token: vscode.CancellationToken
+): Promise<BuildResult> {
+    const buildChannel = getBuildChannel();
+    const processor = new LogProcessor(buildChannel, true);
     const projectDir = path.dirname(projectInfo.csproj);
 
     // Show output in the build channel
     buildChannel.show(true);
     buildChannel.clear();
-    buildChannel.appendLine(`Building ${projectInfo.name} for ${arch} (${config.label})...`);
+    buildChannel.appendLine(`Building ${projectInfo.name} for ${arch} (${options.configuration})...`);
     buildChannel.appendLine('');
 
     // Use cosmos build for cross-platform support
-    const buildArgs = [
-        'build',
-        '-p', projectDir,
-        '-a', arch,
-        '-c', config.label,
-        '-v'  // Verbose for output channel
-    ];
+    const buildArgs = getCosmosBuildArgs(projectDir, arch, options);
 
     buildChannel.appendLine(`> cosmos ${buildArgs.join(' ')}`);
     buildChannel.appendLine('');
 
     const cosmosPath = getCommandPath('cosmos') || 'cosmos';
 
-    const buildProcess = spawn(cosmosPath, buildArgs, {
-        cwd: projectDir,
-        env: { ...getEnvWithDotnetTools(), COLUMNS: '1000', CI: 'true' },
-        shell: false
+    // Errors from csc, ILC, GCC and lld are surfaced in the Problems panel
+    // in addition to the raw log; the collector clears the previous build's.
+    const diagnostics = new BuildDiagnosticsCollector(projectDir, projectInfo.csproj);
+    const phases = new BuildPhaseTracker((_phase, label) => progress.report({ message: label }));
+
+    return new Promise<BuildResult>((resolve) => {
+        const buildProcess = spawn(cosmosPath, buildArgs, {
+            cwd: projectDir,
+            env: { ...getEnvWithDotnetTools(), COLUMNS: '1000', CI: 'true' },
+            shell: false,
+            // Own process group on POSIX, so Cancel takes down the MSBuild
+            // nodes, ILC and lld along with cosmos.
+            detached: process.platform !== 'win32'
+        });
+
+        let cancelled = false;
+        const cancelHandler = token.onCancellationRequested(() => {
+            cancelled = true;
+            buildChannel.appendLine('');
+            buildChannel.appendLine('Cancelling build...');
+            killProcessTree(buildProcess);
+        });
+
+        const onData = (data: Buffer) => {
+            processor.append(data);
+            diagnostics.append(data);
+            phases.append(data);
+        };
+        buildProcess.stdout?.on('data', onData);
+        buildProcess.stderr?.on('data', onData);
+
+        buildProcess.on('close', (code) => {
+            cancelHandler.dispose();
+            processor.flush();
+            const errors = diagnostics.publish();
+            buildChannel.appendLine('');
+            if (cancelled) {
+                buildChannel.appendLine('Build cancelled.');
+            } else if (code === 0) {
+                buildChannel.appendLine('Build completed successfully.');
+            } else {
+                buildChannel.appendLine(`Build failed with exit code ${code}`);
+            }
+            resolve({ success: code === 0 && !cancelled, cancelled, exitCode: code, errors });
+        });
+
+        buildProcess.on('error', (err) => {
+            cancelHandler.dispose();
+            buildChannel.appendLine(`Error: ${err.message}`);
+            resolve({ success: false, cancelled: false, exitCode: null, errors: 0 });
+        });
     });
+}
 
-    buildProcess.stdout?.on('data', (data) => processor.append(data));
-    buildProcess.stderr?.on('data', (data) => processor.append(data));
+export function reportBuildFailure(result: BuildResult): void {
+    if (result.errors > 0) {
+        vscode.window.showErrorMessage(
+            `Build failed with ${result.errors} error${result.errors === 1 ? '' : 's'}`,
+            'Show Problems'
+        ).then(selection => {
+            if (selection === 'Show Problems') {
+                vscode.commands.executeCommand('workbench.actions.view.problems');
+            }
+        });
+    } else if (result.exitCode === null) {
+        vscode.window.showErrorMessage('Build error: could not start cosmos. See the build output for details.');
+    } else {
+        vscode.window.showErrorMessage(`Build failed with exit code ${result.exitCode}`);
+    }
+}
 
-    buildProcess.on('close', (code) => {
-        processor.flush();
-        buildChannel.appendLine('');
-        if (code === 0) {
-            buildChannel.appendLine('Build completed successfully.');
-            vscode.window.showInformationMessage(`Build completed: ${projectInfo.name} (${arch})`);
-        } else {
-            buildChannel.appendLine(`Build failed with exit code ${code}`);
-            vscode.window.showErrorMessage(`Build failed with exit code ${code}`);
+/**
+ * `ready` when the kernel may boot, `declined` when the user turned down the
+ * rebuild prompt, `failed` when the build failed or was cancelled (already
+ * reported to the user).
+ */
+export type KernelReadiness = 'ready' | 'declined' | 'failed';
+
+/**
+ * Makes sure the ISO and ELF in the output directories were built from the
+ * current sources before run/debug boots them. Depending on
+ * `cosmos.buildBeforeLaunch` a stale kernel is rebuilt automatically, after
+ * asking, or not at all.
+ */
+export async function ensureKernelUpToDate(
+    projectInfo: { name: string; csproj: string; arch: string },
+    arch: string
+): Promise<KernelReadiness> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        return 'ready';
+    }
+    const projectDir = path.dirname(projectInfo.csproj);
+    const configuration = getBuildConfiguration();
+    const status = checkKernelUpToDate(workspaceFolder.uri.fsPath, projectDir, projectInfo.name, arch, configuration);
+    if (status.upToDate) {
+        return 'ready';
+    }
+
+    const mode = vscode.workspace.getConfiguration('cosmos').get<'auto' | 'prompt' | 'never'>('buildBeforeLaunch', 'auto');
+    if (mode === 'never') {
+        // The caller's own "no ISO/ELF" checks report a missing build.
+        return 'ready';
+    }
+    const hasArtifacts = !!status.isoPath && !!status.elfPath;
+    if (mode === 'prompt') {
+        const choice = await vscode.window.showWarningMessage(
+            `Kernel ${projectInfo.name} (${arch}) is out of date: ${status.reason}.`,
+            'Build', hasArtifacts ? 'Use Existing Build' : 'Cancel'
+        );
+        if (choice === 'Use Existing Build') {
+            return 'ready';
         }
-    });
+        if (choice !== 'Build') {
+            return 'declined';
+        }
+    }
 
-    buildProcess.on('error', (err) => {
-        buildChannel.appendLine(`Error: ${err.message}`);
-        vscode.window.showErrorMessage(`Build error: ${err.message}`);
-    });
+    const result = await executeBuild(projectInfo, { arch, configuration }, status.reason);
+    if (!result.success && !result.cancelled) {
+        reportBuildFailure(result);
+    }
+    return result.success ? 'ready' : 'failed';
 }
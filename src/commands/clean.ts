@@ -17,7 +17,15 @@ export async function cleanCommand() {
 
     if (confirm !== 'Yes') return;
 
-    const projectDir = path.dirname(projectInfo.csproj);
+    const cleaned = cleanBuildOutputs(path.dirname(projectInfo.csproj));
+    vscode.window.showInformationMessage(`Cleaned ${cleaned} directories`);
+}
+
+/**
+ * Deletes the per-arch output directories and dotnet's bin/obj under
+ * `projectDir`. Returns how many directories were removed.
+ */
+export function cleanBuildOutputs(projectDir: string): number {
     const dirsToClean = ['output-x64', 'output-arm64', 'bin', 'obj'];
     let cleaned = 0;
 
@@ -28,6 +36,5 @@ export async function cleanCommand() {
             cleaned++;
         }
     }
-
-    vscode.window.showInformationMessage(`Cleaned ${cleaned} directories`);
+    return cleaned;
 }
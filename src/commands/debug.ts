@@ -32,3 +32,116 @@ export async function debugCommand(arch?: string): Promise<void> {
         await vscode.commands.executeCommand('workbench.view.debug');
     }
 }
+
+const WATCH_ACCESS: { label: string; description: string; accessType: string }[] = [
+    { label: 'Write', description: 'Break when the memory changes', accessType: 'write' },
+    { label: 'Read', description: 'Break when the memory is read', accessType: 'read' },
+    { label: 'Access', description: 'Break on any read or write', accessType: 'readWrite' }
+];
+
+function activeKernelSession(): vscode.DebugSession | undefined {
+    const session = vscode.debug.activeDebugSession;
+    if (!session || session.type !== 'cosmos-debug') {
+        vscode.window.showErrorMessage('Start a Cosmos kernel debug session first.');
+        return undefined;
+    }
+    return session;
+}
+
+/**
+ * Hardware watchpoint on a raw address, for memory that no variable names
+ * (allocator headers, MMIO shadows, a corrupted object's address). Uses the
+ * same debug-register slots as data breakpoints from the Variables view.
+ */
+export async function watchAddressCommand(): Promise<void> {
+    const session = activeKernelSession();
+    if (!session) {
+        return;
+    }
+    const address = await vscode.window.showInputBox({
+        title: 'Watch Address',
+        prompt: 'Address or gdb expression, e.g. 0xffff800000104000 or &SomeGlobal',
+        ignoreFocusOut: true,
+        validateInput: v => v.trim() ? undefined : 'Enter an address'
+    });
+    if (!address) {
+        return;
+    }
+    const size = await vscode.window.showInputBox({
+        title: 'Watch Address',
+        prompt: 'Number of bytes to watch',
+        value: '8',
+        ignoreFocusOut: true,
+        validateInput: v => /^\d+$/.test(v.trim()) && parseInt(v, 10) > 0 ? undefined : 'Enter a positive byte count'
+    });
+    if (!size) {
+        return;
+    }
+    const access = await vscode.window.showQuickPick(WATCH_ACCESS, { title: 'Watch Address', placeHolder: 'Break on' });
+    if (!access) {
+        return;
+    }
+    try {
+        // The expression is evaluated in the vCPU and frame selected in Call Stack.
+        const focus = vscode.debug.activeStackItem?.session === session ? vscode.debug.activeStackItem : undefined;
+        const result = await session.customRequest('cosmos/watchAddress', {
+            address: address.trim(),
+            threadId: focus?.threadId,
+            frameId: focus && 'frameId' in focus ? focus.frameId : undefined,
+            size: parseInt(size, 10),
+            accessType: access.accessType
+        });
+        if (result?.verified) {
+            vscode.window.showInformationMessage(`Watchpoint ${result.id}: ${result.message}`);
+        } else {
+            vscode.window.showWarningMessage(result?.message || 'The watchpoint could not be placed.');
+        }
+    } catch (err: any) {
+        vscode.window.showErrorMessage(err?.message || String(err));
+    }
+}
+
+export async function removeAddressWatchCommand(): Promise<void> {
+    const session = activeKernelSession();
+    if (!session) {
+        return;
+    }
+    try {
+        const { watches } = await session.customRequest('cosmos/addressWatches');
+        if (!watches?.length) {
+            vscode.window.showInformationMessage('No address watchpoints are set.');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            watches.map((w: any) => ({
+                label: `${w.address}`,
+                description: `${w.size} bytes · ${WATCH_ACCESS.find(a => a.accessType === w.accessType)?.label ?? w.accessType}`,
+                id: w.id
+            })),
+            { title: 'Remove Address Watchpoint', canPickMany: true }
+        );
+        for (const item of (picked as { id: number }[] | undefined) ?? []) {
+            await session.customRequest('cosmos/removeAddressWatch', { id: item.id });
+        }
+    } catch (err: any) {
+        vscode.window.showErrorMessage(err?.message || String(err));
+    }
+}
+
+export async function copyCrashReportCommand(): Promise<void> {
+    const session = activeKernelSession();
+    if (!session) {
+        return;
+    }
+    try {
+        const { text } = await session.customRequest('cosmos/crashReport');
+        if (!text) {
+            vscode.window.showInformationMessage('The kernel has not stopped on a panic or CPU exception.');
+            return;
+        }
+        await vscode.env.clipboard.writeText(text);
+        vscode.window.showInformationMessage('Crash report copied to the clipboard.');
+    } catch (err: any) {
+        vscode.window.showErrorMessage(err?.message || String(err));
+    }
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getProjectInfo } from '../utils/project';
+import { resolveKernelElf, resolveKernelIso } from '../utils/kernelArtifacts';
+import { getBuildConfiguration } from '../utils/buildConfiguration';
+import { getBuildChannel } from '../utils/output';
+import {
+    KernelSizeReport, KernelSizeComparison, buildKernelSizeReport, compareKernelSizeReports,
+    saveKernelSizeReport, loadKernelSizeReports
+} from '../utils/kernelSize';
+import { showKernelSizeReport } from '../ui/kernelSizeWebview';
+
+/**
+ * Generates the size report for a freshly built kernel and stores it in
+ * `output-<arch>/kernel-size.json`, keeping the previous one for comparison.
+ * Called after every successful build; failures are logged, never fatal.
+ */
+export function recordKernelSize(
+    projectInfo: { name: string; csproj: string },
+    arch: string,
+    configuration: string
+): { report: KernelSizeReport; comparison?: KernelSizeComparison } | undefined {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        return undefined;
+    }
+    const projectDir = path.dirname(projectInfo.csproj);
+    const elfPath = resolveKernelElf(workspaceFolder.uri.fsPath, projectDir, projectInfo.name, arch, configuration);
+    if (!elfPath) {
+        return undefined;
+    }
+    try {
+        const report = buildKernelSizeReport(elfPath, resolveKernelIso(projectDir, arch), {
+            project: projectInfo.name,
+            arch,
+            configuration
+        });
+        const outputDir = path.join(projectDir, `output-${arch}`);
+        const { current: previous } = loadKernelSizeReports(outputDir);
+        saveKernelSizeReport(outputDir, report);
+        return { report, comparison: previous ? compareKernelSizeReports(previous, report) : undefined };
+    } catch (err: any) {
+        getBuildChannel().appendLine(`Kernel size report skipped: ${err?.message || err}`);
+        return undefined;
+    }
+}
+
+export async function kernelSizeCommand(arch?: string) {
+    const loaded = loadReports(arch);
+    if (!loaded) {
+        return;
+    }
+    showKernelSizeReport(loaded.report, loaded.comparison);
+}
+
+export async function exportKernelSizeCommand(arch?: string) {
+    const loaded = loadReports(arch);
+    if (!loaded) {
+        return;
+    }
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const defaultName = `kernel-size-${loaded.report.project}-${loaded.report.arch}.json`;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, defaultName) : undefined,
+        filters: { JSON: ['json'] }
+    });
+    if (!target) {
+        return;
+    }
+    const payload = { ...loaded.report, comparison: loaded.comparison };
+    fs.writeFileSync(target.fsPath, JSON.stringify(payload, null, 2));
+    vscode.window.showInformationMessage(`Kernel size report exported to ${path.basename(target.fsPath)}`);
+}
+
+// Uses the report saved by the last build; generates one on the spot when
+// the kernel was built before reports existed.
+function loadReports(arch?: string): { report: KernelSizeReport; comparison?: KernelSizeComparison } | undefined {
+    const projectInfo = getProjectInfo();
+    if (!projectInfo) {
+        vscode.window.showErrorMessage('No Cosmos project found');
+        return undefined;
+    }
+    const target = arch || projectInfo.arch;
+    const outputDir = path.join(path.dirname(projectInfo.csproj), `output-${target}`);
+    const { current, previous } = loadKernelSizeReports(outputDir);
+    if (current) {
+        return { report: current, comparison: previous ? compareKernelSizeReports(previous, current) : undefined };
+    }
+    const recorded = recordKernelSize(projectInfo, target, getBuildConfiguration());
+    if (!recorded) {
+        vscode.window.showErrorMessage(`No kernel ELF for ${projectInfo.name} (${target}). Build first.`);
+    }
+    return recorded;
+}
@@ -1,15 +1,18 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
 import { spawn } from 'child_process';
 import { getProjectInfo, parseProjectProperties } from '../utils/project';
 import { getCosmosToolsPath, getPlatformInfo } from '../utils/cosmos';
 import { getEnvWithDotnetTools } from '../utils/execution';
 import { getOutputChannel } from '../utils/output';
-import { buildCommand } from './build';
+import { buildCommand, ensureKernelUpToDate } from './build';
 import { runDebugAdapterFactory } from '../extension';
 import { LogProcessor } from '../utils/logProcessor';
-import { parseMemoryMb, prepareDiskArgs, buildCpuArgs, buildNicArgs, buildInputArgs } from '../utils/qemuOptions';
+import { buildLaunchArgs, formatCommandLine } from '../utils/qemuOptions';
+import { resolveKernelIso } from '../utils/kernelArtifacts';
+import { findFreePort } from '../utils/portCheck';
+import { openSerialTerminal } from '../utils/serialTerminal';
+import { beginNetworkSession, newCapturePath } from '../utils/networkCapture';
 
 export async function runCommand(arch?: string) {
     const outputChannel = getOutputChannel();
@@ -26,9 +29,15 @@ export async function runCommand(arch?: string) {
     }
 
     const projectDir = path.dirname(projectInfo.csproj);
-    const outputDir = path.join(projectDir, `output-${arch}`);
 
-    if (!fs.existsSync(outputDir)) {
+    // Rebuild first when sources changed since the ISO was produced, so we
+    // never boot a stale kernel by accident.
+    if (await ensureKernelUpToDate(projectInfo, arch) !== 'ready') {
+        return;
+    }
+
+    const isoPath = resolveKernelIso(projectDir, arch);
+    if (!isoPath) {
         const build = await vscode.window.showWarningMessage(
             `No build found for ${arch}. Build first?`,
             'Build', 'Cancel'
@@ -39,13 +48,6 @@ export async function runCommand(arch?: string) {
         return;
     }
 
-    const isoFiles = fs.readdirSync(outputDir).filter(f => f.endsWith('.iso'));
-    if (isoFiles.length === 0) {
-        vscode.window.showErrorMessage('No ISO file found. Please build the project first.');
-        return;
-    }
-
-    const isoPath = path.join(outputDir, isoFiles[0]);
     const props = parseProjectProperties(projectInfo.csproj);
 
     const cosmosCmd = getCosmosToolsPath();
@@ -54,24 +56,27 @@ export async function runCommand(arch?: string) {
         return;
     }
 
-    const cosmosArgs = ['run', '-a', arch, '--iso', isoPath];
-    if (!props.enableGraphics) {
-        cosmosArgs.push('--headless');
-    }
-    const memoryMb = parseMemoryMb(props.qemu.memory);
-    if (memoryMb !== null) {
-        cosmosArgs.push('-m', String(memoryMb));
-    }
-    cosmosArgs.push(...buildCpuArgs(props.qemu.cpuModel));
-    cosmosArgs.push(...buildNicArgs(props.qemu.networkCard));
-    cosmosArgs.push(...buildInputArgs(props.qemu.keyboard, props.qemu.mouse));
+    // serialMode "terminal": the guest UART goes to an interactive terminal
+    // over a QEMU socket chardev instead of cosmos' stdout.
+    const serialPort = props.qemu.serialMode === 'terminal' ? await findFreePort() : undefined;
+
+    let cosmosArgs: string[];
     try {
-        cosmosArgs.push(...prepareDiskArgs(projectDir, props.qemu.disks, (m) => outputChannel.appendLine(m)));
+        const capturePath = props.qemu.capturePackets ? newCapturePath(projectDir, arch) : undefined;
+        cosmosArgs = buildLaunchArgs({
+            projectDir, props, arch, isoPath, serialPort, capturePath,
+            log: (m) => outputChannel.appendLine(m)
+        });
+        beginNetworkSession(projectInfo.name, arch, props.qemu, capturePath);
     } catch (err: any) {
-        vscode.window.showErrorMessage(`Failed to prepare disk image: ${err.message}`);
+        vscode.window.showErrorMessage(`Invalid QEMU configuration: ${err.message}`);
         return;
     }
 
+    if (serialPort !== undefined) {
+        openSerialTerminal(`Cosmos Serial (${projectInfo.name})`, serialPort);
+    }
+
     outputChannel.show(true);
     outputChannel.clear();
     outputChannel.appendLine(`Running ${projectInfo.name} (${arch}) via cosmos run`);
@@ -120,3 +125,40 @@ export async function runCommand(arch?: string) {
     // Keep focus on Cosmos view
     vscode.commands.executeCommand('workbench.view.extension.cosmos');
 }
+
+// Prints the `cosmos run` command lines Run and Debug would use for the
+// current project properties, without building, creating disks or booting.
+export async function showQemuCommandLineCommand(arch?: string) {
+    const projectInfo = getProjectInfo();
+    if (!projectInfo) {
+        vscode.window.showErrorMessage('No Cosmos project found');
+        return;
+    }
+    const target = arch || projectInfo.arch;
+    const projectDir = path.dirname(projectInfo.csproj);
+    const isoPath = resolveKernelIso(projectDir, target)
+        ?? path.join(projectDir, `output-${target}`, `${projectInfo.name}.iso`);
+    const cosmosCmd = getCosmosToolsPath() ?? 'cosmos';
+
+    let runArgs: string[];
+    let debugArgs: string[];
+    try {
+        const props = parseProjectProperties(projectInfo.csproj);
+        const serialPort = props.qemu.serialMode === 'terminal' ? await findFreePort() : undefined;
+        const capturePath = props.qemu.capturePackets ? newCapturePath(projectDir, target, false) : undefined;
+        const common = { projectDir, props, arch: target, isoPath, serialPort, capturePath, dryRun: true };
+        runArgs = buildLaunchArgs(common);
+        debugArgs = buildLaunchArgs({ ...common, debug: true });
+    } catch (err: any) {
+        vscode.window.showErrorMessage(`Invalid QEMU configuration: ${err.message}`);
+        return;
+    }
+
+    const outputChannel = getOutputChannel();
+    outputChannel.show(true);
+    outputChannel.appendLine('');
+    outputChannel.appendLine(`Effective QEMU command line for ${projectInfo.name} (${target}):`);
+    outputChannel.appendLine(`  Run:   ${formatCommandLine(cosmosCmd, runArgs)}`);
+    outputChannel.appendLine(`  Debug: ${formatCommandLine(cosmosCmd, debugArgs)}`);
+    outputChannel.appendLine('  (Debug also adds a -qmp socket for the live kernel views.)');
+}
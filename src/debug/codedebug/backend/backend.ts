@@ -31,6 +31,17 @@ export interface Stack {
 	line: number;
 }
 
+export interface DisassembledInstruction {
+	address: string;
+	opcodes: string;
+	instruction: string;
+	functionName?: string;
+	offset?: number;
+	file?: string;
+	fullname?: string;
+	line?: number;
+}
+
 export interface Variable {
 	name: string;
 	valueStr: string;
@@ -135,10 +146,27 @@ export class VariableObject {
 			type: this.type,
 			variablesReference: this.id
 		};
+		const memoryReference = pointerMemoryReference(this.value, this.type);
+		if (memoryReference)
+			res.memoryReference = memoryReference;
 		return res;
 	}
 }
 
+// The address a pointer value points at, for DAP `memoryReference` (enables
+// "View Binary Data"). Accepts gdb's "(T *) 0x..." form anywhere, and a
+// leading "0x..." (optionally followed by "<sym>") when the type is a pointer.
+export function pointerMemoryReference(value: string, type?: string): string | undefined {
+	if (!value)
+		return undefined;
+	const m = /^(\([^()]*\*\)\s*)?(0x[0-9a-fA-F]+)\b/.exec(value.trim());
+	if (!m)
+		return undefined;
+	if (!m[1] && !(type && /\*\s*$/.test(type)))
+		return undefined;
+	return m[2];
+}
+
 // from https://gist.github.com/justmoon/15511f92e5216fa2624b#gistcomment-1928632
 export interface MIError extends Error {
 	readonly name: string;
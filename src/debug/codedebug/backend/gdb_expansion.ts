@@ -249,11 +249,17 @@ export function expandValue(variableCreate: (arg: VariableObject | string, optio
 		value = value.trim();
 		value = value.replace(/^, <No data fields>/, "");
 
-		return {
+		const ret: any = {
 			name: name,
 			value: val,
 			variablesReference: ref
 		};
+		// Pointers ("Object@0x...") and references ("Ref@0x...") can be
+		// opened in the hex editor.
+		const address = typeof val === "string" ? /@(0x[0-9a-fA-F]+)$/.exec(val) : null;
+		if (address)
+			ret.memoryReference = address[1];
+		return ret;
 	};
 
 	parseCommaValue = () => {
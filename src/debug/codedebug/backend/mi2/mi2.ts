@@ -1,7 +1,7 @@
 // @ts-nocheck
 // Vendored from WebFreak001/code-debug (Unlicense / public domain).
 // SSH and terminal-emulator paths were stripped — see LICENSE in this directory.
-import { Breakpoint, IBackend, Thread, Stack, SSHArguments, Variable, RegisterValue, VariableObject, MIError } from "../backend";
+import { Breakpoint, IBackend, Thread, Stack, DisassembledInstruction, SSHArguments, Variable, RegisterValue, VariableObject, MIError } from "../backend";
 import * as ChildProcess from "child_process";
 import { EventEmitter } from "events";
 import { parseMI, MINode } from '../mi_parse';
@@ -299,7 +299,9 @@ export class MI2 extends EventEmitter implements IBackend {
 				}
 				if (parsed.outOfBandRecord) {
 					parsed.outOfBandRecord.forEach(record => {
-						if (record.isStream) {
+						if (record.isStream && this.streamCapture && (record.type === "target" || record.type === "console")) {
+							this.streamCapture.push(record.content);
+						} else if (record.isStream) {
 							this.log(record.type, record.content);
 							const logOutput = this.logMessage.logMsgOutput(record);
 							if(logOutput){
@@ -463,31 +465,37 @@ export class MI2 extends EventEmitter implements IBackend {
 		});
 	}
 
-	next(reverse: boolean = false): Thenable<boolean> {
+	// Cosmos: stepping takes the vCPU (gdb thread) to step; 0 leaves it to
+	// gdb, which steps whichever thread reported the last stop.
+	private threadOption(thread: number): string {
+		return thread !== 0 ? ` --thread ${thread}` : "";
+	}
+
+	next(reverse: boolean = false, instruction: boolean = false, thread: number = 0): Thenable<boolean> {
 		if (trace)
 			this.log("stderr", "next");
 		return new Promise((resolve, reject) => {
-			this.sendCommand("exec-next" + (reverse ? " --reverse" : "")).then((info) => {
+			this.sendCommand((instruction ? "exec-next-instruction" : "exec-next") + this.threadOption(thread) + (reverse ? " --reverse" : "")).then((info) => {
 				resolve(info.resultRecords.resultClass === "running");
 			}, reject);
 		});
 	}
 
-	step(reverse: boolean = false): Thenable<boolean> {
+	step(reverse: boolean = false, instruction: boolean = false, thread: number = 0): Thenable<boolean> {
 		if (trace)
 			this.log("stderr", "step");
 		return new Promise((resolve, reject) => {
-			this.sendCommand("exec-step" + (reverse ? " --reverse" : "")).then((info) => {
+			this.sendCommand((instruction ? "exec-step-instruction" : "exec-step") + this.threadOption(thread) + (reverse ? " --reverse" : "")).then((info) => {
 				resolve(info.resultRecords.resultClass === "running");
 			}, reject);
 		});
 	}
 
-	stepOut(reverse: boolean = false): Thenable<boolean> {
+	stepOut(reverse: boolean = false, thread: number = 0): Thenable<boolean> {
 		if (trace)
 			this.log("stderr", "stepOut");
 		return new Promise((resolve, reject) => {
-			this.sendCommand("exec-finish" + (reverse ? " --reverse" : "")).then((info) => {
+			this.sendCommand("exec-finish" + this.threadOption(thread) + (reverse ? " --reverse" : "")).then((info) => {
 				resolve(info.resultRecords.resultClass === "running");
 			}, reject);
 		});
@@ -780,10 +788,14 @@ export class MI2 extends EventEmitter implements IBackend {
 		return names.map(name => name.toString());
 	}
 
-	async getRegisterValues(): Promise<RegisterValue[]> {
+	// `format` is an MI value format (N natural, x hex); `registers` narrows
+	// the list to those numbers instead of the configured registerLimit.
+	async getRegisterValues(format: string = "N", registers?: number[], thread: number = 0): Promise<RegisterValue[]> {
 		if (trace)
 			this.log("stderr", "getRegisterValues");
-		const result = await this.sendCommand("data-list-register-values --skip-unavailable N " + this.registerLimit);
+		const select = thread !== 0 ? `--thread ${thread} --frame 0 ` : "";
+		const numbers = registers ? registers.join(" ") : this.registerLimit;
+		const result = await this.sendCommand(`data-list-register-values ${select}--skip-unavailable ${format} ${numbers}`);
 		const nodes = result.result('register-values');
 		if (!Array.isArray(nodes)) {
 			throw new Error('Failed to retrieve register values.');
@@ -806,6 +818,116 @@ export class MI2 extends EventEmitter implements IBackend {
 		});
 	}
 
+	// Reads `count` bytes at `address` for DAP readMemory. gdb returns the
+	// readable blocks of the range; the first one is returned with its own
+	// start address, and whatever follows it counts as unreadable. A range
+	// with nothing readable resolves to no data rather than an error.
+	async readMemoryBytes(address: bigint, count: number): Promise<{ address: bigint, data: Buffer, unreadable: number }> {
+		if (trace)
+			this.log("stderr", "readMemoryBytes");
+		if (count <= 0)
+			return { address, data: Buffer.alloc(0), unreadable: 0 };
+		let result: MINode;
+		try {
+			result = await this.sendCommand(`data-read-memory-bytes 0x${address.toString(16)} ${count}`);
+		} catch (err) {
+			return { address, data: Buffer.alloc(0), unreadable: count };
+		}
+		const blocks = (result.result("memory") || [])
+			.map((block: any) => ({
+				begin: BigInt(MINode.valueOf(block, "begin")),
+				contents: Buffer.from(MINode.valueOf(block, "contents") || "", "hex")
+			}))
+			.sort((a: any, b: any) => (a.begin < b.begin ? -1 : a.begin > b.begin ? 1 : 0));
+		if (blocks.length === 0)
+			return { address, data: Buffer.alloc(0), unreadable: count };
+		const first = blocks[0];
+		const consumed = Number(first.begin - address) + first.contents.length;
+		return { address: first.begin, data: first.contents, unreadable: Math.max(0, count - consumed) };
+	}
+
+	writeMemoryBytes(address: bigint, data: Buffer): Thenable<MINode> {
+		if (trace)
+			this.log("stderr", "writeMemoryBytes");
+		return this.sendCommand(`data-write-memory-bytes 0x${address.toString(16)} ${data.toString("hex")}`);
+	}
+
+	// Inserts a watchpoint and reports whether gdb placed it in a debug
+	// register. gdb silently degrades write watchpoints to software ones
+	// when it runs out, which `-break-info` exposes as type "watchpoint".
+	async addWatchpoint(expression: string, access: "read" | "write" | "readWrite"): Promise<{ id: number, hardware: boolean }> {
+		if (trace)
+			this.log("stderr", "addWatchpoint");
+		const flag = access === "read" ? "-r " : access === "readWrite" ? "-a " : "";
+		const result = await this.sendCommand(`break-watch ${flag}"${escape(expression)}"`);
+		const id = parseInt(result.result("wpt.number") || result.result("hw-rwpt.number") || result.result("hw-awpt.number"));
+		if (isNaN(id))
+			throw new Error("gdb did not report a watchpoint number");
+		const info = await this.sendCommand(`break-info ${id}`);
+		const type = info.result("BreakpointTable.body.bkpt.type");
+		return { id, hardware: type !== "watchpoint" };
+	}
+
+	// Runs a QEMU monitor command over the gdbstub (qRcmd) and returns what
+	// it printed. gdb relays that output as stream records ahead of the
+	// command's result, so they are collected instead of logged meanwhile.
+	async monitorCommand(command: string): Promise<string> {
+		if (trace)
+			this.log("stderr", "monitorCommand");
+		const captured: string[] = [];
+		this.streamCapture = captured;
+		try {
+			await this.sendCliCommand("monitor " + command);
+		} finally {
+			this.streamCapture = undefined;
+		}
+		return captured.join("");
+	}
+
+	removeWatchpoint(id: number): Thenable<MINode> {
+		if (trace)
+			this.log("stderr", "removeWatchpoint");
+		return this.sendCommand(`break-delete ${id}`);
+	}
+
+	// Disassembles [start, end) with source interleaving (mode 5: mixed
+	// source and disassembly with raw opcodes). Instructions without line
+	// info come back without file/line. Uses the flavour set on the gdb side
+	// (intel on x64).
+	async disassemble(start: string, end: string): Promise<DisassembledInstruction[]> {
+		if (trace)
+			this.log("stderr", "disassemble");
+		const result = await this.sendCommand(`data-disassemble -s ${start} -e ${end} -- 5`);
+		const ret: DisassembledInstruction[] = [];
+		const pushInsn = (insn: any, file?: string, fullname?: string, line?: number) => {
+			const offset = MINode.valueOf(insn, "offset");
+			ret.push({
+				address: MINode.valueOf(insn, "address"),
+				opcodes: MINode.valueOf(insn, "opcodes") || "",
+				instruction: (MINode.valueOf(insn, "inst") || "").replace(/\t/g, " "),
+				functionName: MINode.valueOf(insn, "func-name"),
+				offset: offset !== undefined ? parseInt(offset) : undefined,
+				file,
+				fullname,
+				line
+			});
+		};
+		for (const element of result.result("asm_insns") || []) {
+			// Mixed mode yields src_and_asm_line={line,file,fullname,line_asm_insn=[...]}
+			// results; gdb falls back to bare instruction tuples without line info.
+			if (Array.isArray(element) && element[0] === "src_and_asm_line") {
+				const src = element[1];
+				const line = parseInt(MINode.valueOf(src, "line"));
+				for (const insn of MINode.valueOf(src, "line_asm_insn") || []) {
+					pushInsn(insn, MINode.valueOf(src, "file"), MINode.valueOf(src, "fullname"), isNaN(line) ? undefined : line);
+				}
+			} else {
+				pushInsn(element);
+			}
+		}
+		return ret;
+	}
+
 	async evalExpression(name: string, thread: number, frame: number): Promise<MINode> {
 		if (trace)
 			this.log("stderr", "evalExpression");
@@ -833,6 +955,15 @@ export class MI2 extends EventEmitter implements IBackend {
 		return new VariableObject(res.result(""));
 	}
 
+	// Type, value and child count of `expression`, through a throwaway varobj.
+	async describeExpression(expression: string, thread: number, frame: number): Promise<VariableObject> {
+		if (trace)
+			this.log("stderr", "describeExpression");
+		const varObj = await this.varCreate(thread, frame, expression);
+		await this.sendCommand(`var-delete ${this.quote(varObj.name)}`);
+		return varObj;
+	}
+
 	async varEvalExpression(name: string): Promise<MINode> {
 		if (trace)
 			this.log("stderr", "varEvalExpression");
@@ -928,6 +1059,7 @@ export class MI2 extends EventEmitter implements IBackend {
 	features: string[];
 	public procEnv: any;
 	public registerLimit: string;
+	protected streamCapture: string[] | undefined;
 	protected isSSH: boolean;
 	protected sshReady: boolean;
 	protected currentToken: number = 1;
@@ -4,7 +4,7 @@
 import * as DebugAdapter from 'vscode-debugadapter';
 import { DebugSession, InitializedEvent, TerminatedEvent, StoppedEvent, ThreadEvent, OutputEvent, ContinuedEvent, Thread, StackFrame, Scope, Source, Handles, ErrorDestination } from 'vscode-debugadapter';
 import { DebugProtocol } from 'vscode-debugprotocol';
-import { Breakpoint, IBackend, Variable, VariableObject, ValuesFormattingMode, MIError } from './backend/backend';
+import { Breakpoint, IBackend, Variable, VariableObject, ValuesFormattingMode, MIError, pointerMemoryReference } from './backend/backend';
 import { MINode } from './backend/mi_parse';
 import { expandValue, isExpandable } from './backend/gdb_expansion';
 import { MI2 } from './backend/mi2/mi2';
@@ -16,11 +16,18 @@ import * as fs from "fs";
 import { SourceFileMap } from "./source_file_map";
 
 class ExtendedVariable {
-	constructor(public name: string, public options: { "arg": any }) {
+	constructor(public name: string, public options: { "arg": any }, public threadId: number, public level: number) {
 	}
 }
 
-class VariableScope {
+// Cosmos: an expression to expand on demand, with the thread and frame it
+// was read in, so expanding it later evaluates in the same place.
+export class ExpressionHandle {
+	constructor(public readonly expression: string, public readonly threadId: number, public readonly level: number) {
+	}
+}
+
+export class VariableScope {
 	constructor(public readonly name: string, public readonly threadId: number, public readonly level: number) {
 	}
 
@@ -32,7 +39,7 @@ class VariableScope {
 export enum RunCommand { CONTINUE, RUN, NONE }
 
 export class MI2DebugSession extends DebugSession {
-	protected variableHandles = new Handles<VariableScope | string | VariableObject | ExtendedVariable>();
+	protected variableHandles = new Handles<VariableScope | ExpressionHandle | VariableObject | ExtendedVariable>();
 	protected variableHandlesReverse: { [id: string]: number } = {};
 	protected scopeHandlesReverse: { [key: string]: number } = {};
 	protected useVarObjects: boolean;
@@ -59,7 +66,7 @@ export class MI2DebugSession extends DebugSession {
 		this.miDebugger.on("stopped", this.stopEvent.bind(this));
 		this.miDebugger.on("msg", this.handleMsg.bind(this));
 		this.miDebugger.on("breakpoint", this.handleBreakpoint.bind(this));
-		this.miDebugger.on("watchpoint", this.handleBreak.bind(this));	// consider to parse old/new, too (otherwise it is in the console only)
+		this.miDebugger.on("watchpoint", this.handleWatchpoint.bind(this));
 		this.miDebugger.on("step-end", this.handleBreak.bind(this));
 		//this.miDebugger.on("step-out-end", this.handleBreak.bind(this));  // was combined into step-end
 		this.miDebugger.on("step-other", this.handleBreak.bind(this));
@@ -144,6 +151,21 @@ export class MI2DebugSession extends DebugSession {
 		this.sendEvent(event);
 	}
 
+	protected handleWatchpoint(info: MINode) {
+		const event = new StoppedEvent("data breakpoint", parseInt(info.record("thread-id")));
+		const body = (event as DebugProtocol.StoppedEvent).body;
+		body.allThreadsStopped = info.record("stopped-threads") === "all";
+		const id = parseInt(info.record("wpt.number") || info.record("hw-rwpt.number") || info.record("hw-awpt.number"));
+		if (!isNaN(id))
+			body.hitBreakpointIds = [id];
+		// Write/access triggers carry old and new, read triggers just the value.
+		const oldValue = info.record("value.old");
+		const newValue = info.record("value.new") ?? info.record("value.value");
+		if (newValue !== undefined)
+			body.text = oldValue !== undefined ? `${oldValue} -> ${newValue}` : newValue;
+		this.sendEvent(event);
+	}
+
 	protected handleBreak(info?: MINode) {
 		const event = new StoppedEvent("step", info ? parseInt(info.record("thread-id")) : 1);
 		(event as DebugProtocol.StoppedEvent).body.allThreadsStopped = info ? info.record("stopped-threads") === "all" : true;
@@ -332,12 +354,17 @@ export class MI2DebugSession extends DebugSession {
 					source = new Source(element.fileName, path);
 				}
 
-				ret.push(new StackFrame(
+				const frame = new StackFrame(
 					this.threadAndLevelToFrameId(args.threadId, element.level),
 					element.function + (element.address ? "@" + element.address : ""),
 					source,
 					element.line,
-					0));
+					0);
+				// Lets the Disassembly view follow the frame, and lets VS Code
+				// open it for frames with no source (boot stubs, ILC helpers).
+				if (element.address)
+					frame.instructionPointerReference = element.address;
+				ret.push(frame);
 			});
 			response.body = {
 				stackFrames: ret
@@ -430,22 +457,8 @@ export class MI2DebugSession extends DebugSession {
 		const scopes = new Array<Scope>();
 		const [threadId, level] = this.frameIdToThreadAndLevel(args.frameId);
 
-		const createScope = (scopeName: string, expensive: boolean): Scope => {
-			const key: string = scopeName + ":" + threadId + ":" + level;
-			let handle: number;
-
-			if (this.scopeHandlesReverse.hasOwnProperty(key)) {
-				handle = this.scopeHandlesReverse[key];
-			} else {
-				handle = this.variableHandles.create(new VariableScope(scopeName, threadId, level));
-				this.scopeHandlesReverse[key] = handle;
-			}
-
-			return new Scope(scopeName, handle, expensive);
-		};
-
-		scopes.push(createScope("Locals", false));
-		scopes.push(createScope("Registers", false));
+		scopes.push(this.createScope("Locals", threadId, level, false));
+		scopes.push(this.createScope("Registers", threadId, level, false));
 
 		response.body = {
 			scopes: scopes
@@ -453,13 +466,45 @@ export class MI2DebugSession extends DebugSession {
 		this.sendResponse(response);
 	}
 
+	// Cosmos: subclasses can format a stack variable, or the expansion of an
+	// expression, themselves (managed types when gdb has no Python).
+	// Undefined falls back to gdb's text.
+	protected async formatStackVariable(_variable: Variable, _threadId: number, _level: number, _createVariable: (expression: string) => number): Promise<DebugProtocol.Variable | undefined> {
+		return undefined;
+	}
+
+	protected async expandExpression(_expression: string, _threadId: number, _level: number, _createVariable: (expression: string) => number): Promise<DebugProtocol.Variable[] | undefined> {
+		return undefined;
+	}
+
+	protected createScope(scopeName: string, threadId: number, level: number, expensive: boolean): Scope {
+		const key: string = scopeName + ":" + threadId + ":" + level;
+		let handle: number;
+
+		if (this.scopeHandlesReverse.hasOwnProperty(key)) {
+			handle = this.scopeHandlesReverse[key];
+		} else {
+			handle = this.variableHandles.create(new VariableScope(scopeName, threadId, level));
+			this.scopeHandlesReverse[key] = handle;
+		}
+
+		return new Scope(scopeName, handle, expensive);
+	}
+
 	protected override async variablesRequest(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments): Promise<void> {
 		const variables: DebugProtocol.Variable[] = [];
-		const id: VariableScope | string | VariableObject | ExtendedVariable = this.variableHandles.get(args.variablesReference);
+		const id: VariableScope | ExpressionHandle | VariableObject | ExtendedVariable = this.variableHandles.get(args.variablesReference);
 
+		// Cosmos: expressions found while expanding keep the thread and
+		// frame of what they were found in.
+		const [threadId, level] = id instanceof VariableScope || id instanceof ExpressionHandle || id instanceof ExtendedVariable
+			? [id.threadId, id.level]
+			: [0, 0];
 		const createVariable = (arg: string | VariableObject, options?: any) => {
 			if (options)
-				return this.variableHandles.create(new ExtendedVariable(typeof arg === 'string' ? arg : arg.name, options));
+				return this.variableHandles.create(new ExtendedVariable(typeof arg === 'string' ? arg : arg.name, options, threadId, level));
+			else if (typeof arg === 'string')
+				return this.variableHandles.create(new ExpressionHandle(arg, threadId, level));
 			else
 				return this.variableHandles.create(arg);
 		};
@@ -523,7 +568,10 @@ export class MI2DebugSession extends DebugSession {
 								});
 							}
 						} else {
-							if (variable.valueStr !== undefined) {
+							const formatted = await this.formatStackVariable(variable, id.threadId, id.level, createVariable);
+							if (formatted) {
+								variables.push(formatted);
+							} else if (variable.valueStr !== undefined) {
 								let expanded = expandValue(createVariable, `{${variable.name}=${variable.valueStr})`, "", variable.raw);
 								if (expanded) {
 									if (typeof expanded[0] === "string")
@@ -553,12 +601,22 @@ export class MI2DebugSession extends DebugSession {
 			} catch (err) {
 				this.sendErrorResponse(response, 1, `Could not expand variable: ${err}`);
 			}
-		} else if (typeof id === "string") {
+		} else if (id instanceof ExpressionHandle) {
 			// Variable members
+			try {
+				const formatted = await this.expandExpression(id.expression, id.threadId, id.level, createVariable);
+				if (formatted) {
+					response.body = { variables: formatted };
+					this.sendResponse(response);
+					return;
+				}
+			} catch (err) {
+				this.sendErrorResponse(response, 1, `Could not expand variable: ${err}`);
+				return;
+			}
 			let variable;
 			try {
-				// TODO: this evaluates on an (effectively) unknown thread for multithreaded programs.
-				variable = await this.miDebugger.evalExpression(JSON.stringify(id), 0, 0);
+				variable = await this.miDebugger.evalExpression(JSON.stringify(id.expression), id.threadId, id.level);
 				try {
 					let variableValue = variable.result("value");
 					const pattern = /'([^']*)' <repeats (\d+) times>/g;
@@ -567,7 +625,7 @@ export class MI2DebugSession extends DebugSession {
 						const repeatedArray = Array(repeatCount).fill(char);
 						return `{${repeatedArray.map(item => `'${item}'`).join(', ')}}`;
 					});
-					let expanded = expandValue(createVariable, variableValue, id, variable);
+					let expanded = expandValue(createVariable, variableValue, id.expression, variable);
 					if (!expanded) {
 						this.sendErrorResponse(response, 2, `Could not expand variable`);
 					} else {
@@ -622,8 +680,7 @@ export class MI2DebugSession extends DebugSession {
 						this.sendResponse(response);
 					};
 					const addOne = async () => {
-						// TODO: this evaluates on an (effectively) unknown thread for multithreaded programs.
-						const variable = await this.miDebugger.evalExpression(JSON.stringify(`${varReq.name}+${arrIndex})`), 0, 0);
+						const variable = await this.miDebugger.evalExpression(JSON.stringify(`${varReq.name}+${arrIndex})`), varReq.threadId, varReq.level);
 						try {
 							const expanded = expandValue(createVariable, variable.result("value"), varReq.name, variable);
 							if (!expanded) {
@@ -711,8 +768,8 @@ export class MI2DebugSession extends DebugSession {
 		});
 	}
 
-	protected override stepInRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): void {
-		this.miDebugger.step().then(done => {
+	protected override stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments): void {
+		this.miDebugger.step(false, args.granularity === "instruction", args.threadId).then(done => {
 			this.sendResponse(response);
 		}, msg => {
 			this.sendErrorResponse(response, 4, `Could not step in: ${msg}`);
@@ -720,7 +777,7 @@ export class MI2DebugSession extends DebugSession {
 	}
 
 	protected override stepOutRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): void {
-		this.miDebugger.stepOut().then(done => {
+		this.miDebugger.stepOut(false, args.threadId).then(done => {
 			this.sendResponse(response);
 		}, msg => {
 			this.sendErrorResponse(response, 5, `Could not step out: ${msg}`);
@@ -728,7 +785,7 @@ export class MI2DebugSession extends DebugSession {
 	}
 
 	protected override nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): void {
-		this.miDebugger.next().then(done => {
+		this.miDebugger.next(false, args.granularity === "instruction", args.threadId).then(done => {
 			this.sendResponse(response);
 		}, msg => {
 			this.sendErrorResponse(response, 6, `Could not step over: ${msg}`);
@@ -743,6 +800,9 @@ export class MI2DebugSession extends DebugSession {
 					variablesReference: 0,
 					result: res.result("value")
 				};
+				const memoryReference = pointerMemoryReference(res.result("value"));
+				if (memoryReference)
+					response.body.memoryReference = memoryReference;
 				this.sendResponse(response);
 			}, msg => {
 				if (args.context === "hover") {
@@ -1,28 +1,105 @@
 // @ts-nocheck
 // Cosmos-specific subclass of code-debug's MI2DebugSession. We only need the
-// gdb-remote attach path (QEMU's gdbstub on localhost:1234), so the launch and
+// gdb-remote attach path (a QEMU gdbstub, local or remote), so the launch and
 // SSH branches are not reachable. Everything heavy — MI parsing, breakpoint
 // management, variables, stepping — comes from the vendored base class.
-import { MI2DebugSession, RunCommand } from './codedebug/mibase';
-import { DebugSession } from 'vscode-debugadapter';
+import * as fs from 'fs';
+import { ExpressionHandle, MI2DebugSession, RunCommand, VariableScope } from './codedebug/mibase';
+import { DebugSession, InvalidatedEvent, StoppedEvent, Thread } from 'vscode-debugadapter';
 import { DebugProtocol } from 'vscode-debugprotocol';
 import { MI2, escape } from './codedebug/backend/mi2/mi2';
-import { ValuesFormattingMode } from './codedebug/backend/backend';
+import { Breakpoint, ValuesFormattingMode, VariableObject, pointerMemoryReference } from './codedebug/backend/backend';
+import { disassembleWindow } from './disassembly';
+import { decodeSystemRegisters, systemRegisterSources, wantsMonitorDump } from './registerDecoder';
+import {
+    CrashKind, CrashReport, EXCEPTION_FILTERS, ExceptionEntryPoints, buildCrashReport, formatCrashReport, lastLoggedException, logSize, readLogTail
+} from './crashReport';
+import { MINode } from './codedebug/backend/mi_parse';
+import { demangleNativeAotSymbol } from '../utils/nativeAotNames';
+import { typeMapLoadCommand } from '../utils/typeMap';
+import { CSharpTranslator, ExpressionError } from './csharpExpression';
+import { ManagedChild, ManagedFormatter, ManagedView, RuntimeTypes, managedKind, simplifyValueText } from './managedFormatter';
+import {
+    HARDWARE_WATCHPOINT_SLOTS, WatchAccess, WatchRegion, describeAccess, formatDataId, parseDataId,
+    slotsNeeded, watchExpression
+} from './watchpoints';
 
 export interface CosmosAttachArguments extends DebugProtocol.AttachRequestArguments {
     cwd: string;
     target: string;          // "host:port" — passed straight to gdb's target remote
     gdbpath: string;
     executable: string;      // the kernel ELF (for symbols)
+    arch?: string;           // x64 | arm64 — instruction width for disassembly
     setupCommands?: string[]; // run BEFORE target-select (e.g. "gdb-set osabi none")
     autorun?: string[];       // run AFTER target-select
     valuesFormatting?: ValuesFormattingMode;
     pathSubstitutions?: { [src: string]: string };
     showDevDebugOutput?: boolean;
     registerLimit?: string;
+    exceptionEntryPoints?: ExceptionEntryPoints; // resolved from the ELF by the extension
+    interruptLog?: string;    // QEMU -D file with -d int,cpu_reset output, when enabled
+    freezeOnReset?: boolean;  // QEMU runs with -no-reboot -no-shutdown, so SIGQUIT means a guest reset
+    detachOnDisconnect?: boolean; // attach mode: leave the target running when the session ends
+    stopAtEntry?: string;     // temporary breakpoint set before the first continue
+    pythonPrinters?: boolean; // cosmos_prettyprint.py is loaded; otherwise ManagedFormatter stands in
+    typeMap?: string;         // MethodTable → type name map (utils/typeMap) for Object runtime types
+}
+
+const SYSTEM_REGISTERS_SCOPE = 'System Registers';
+
+// Frames captured into a crash report.
+const CRASH_STACK_DEPTH = 16;
+// Longest panic message read from the kernel.
+const MAX_PANIC_MESSAGE = 1024;
+
+// QEMU's gdbstub exposes one gdb thread per vCPU, in CPU order, with
+// "CPU#n [state]" as the thread's extra info.
+function vcpuThreadName(thread: { name?: string }, index: number): string {
+    const m = /CPU#(\d+)(?:\s*\[([^\]]*)\])?/.exec(thread.name ?? '');
+    const state = m?.[2]?.trim();
+    return `vCPU ${m ? m[1] : index}${state ? ` (${state})` : ''}`;
+}
+
+// Children of a node in the System Registers scope, built when the scope is
+// expanded (groups hold registers, registers hold their bit fields).
+class SystemRegisterNode {
+    constructor(public readonly variables: DebugProtocol.Variable[]) { }
+}
+
+// A watchpoint placed in gdb, from the Variables view (`key` is the DAP
+// dataId plus access type) or from the cosmos.watchAddress command.
+interface Watch {
+    id: number;
+    key: string;
+    region: WatchRegion;
+    access: WatchAccess;
+    slots: number;
+    fromCommand: boolean;
 }
 
 class CosmosGdbSession extends MI2DebugSession {
+    private arch: string | undefined;
+    private watches: Watch[] = [];
+    // gdb register numbers by lower-cased name; fixed for the session.
+    private registerNumbers: Map<string, number> | undefined;
+    private entryPoints: ExceptionEntryPoints = { panic: [], cpuException: [] };
+    private interruptLog: string | undefined;
+    // The log is cumulative across resets: where it stood when the target
+    // last stopped, and where the current stop's run began.
+    private interruptLogStop = 0;
+    private interruptLogRunStart = 0;
+    private freezeOnReset = false;
+    // gdb breakpoint number -> filter, for the exception breakpoints.
+    private crashBreakpoints = new Map<number, { kind: CrashKind; entryPoint: string }>();
+    private crashReport: CrashReport | undefined;
+    private pythonPrinters = false;
+    private runtimeTypes = new RuntimeTypes();
+    // Types whose values are real structs rather than a wrapped primitive;
+    // fixed for an ELF.
+    private structTypes = new Set<string>();
+    // Function breakpoints as gdb holds them, replaced as a set.
+    private functionBreakpoints: Breakpoint[] = [];
+
     public constructor() {
         super(false);
     }
@@ -39,6 +116,13 @@ class CosmosGdbSession extends MI2DebugSession {
         response.body.supportsEvaluateForHovers = true;
         response.body.supportsSetVariable = true;
         response.body.supportsLogPoints = true;
+        response.body.supportsDisassembleRequest = true;
+        response.body.supportsSteppingGranularity = true;
+        response.body.supportsReadMemoryRequest = true;
+        response.body.supportsWriteMemoryRequest = true;
+        response.body.supportsDataBreakpoints = true;
+        response.body.supportsExceptionInfoRequest = true;
+        response.body.exceptionBreakpointFilters = EXCEPTION_FILTERS;
         this.sendResponse(response);
     }
 
@@ -62,6 +146,12 @@ class CosmosGdbSession extends MI2DebugSession {
         }
 
         this.miDebugger = new MI2(dbgCommand, ['-q', '--interpreter=mi2'], [], {});
+        this.arch = args.arch;
+        this.entryPoints = args.exceptionEntryPoints ?? this.entryPoints;
+        this.interruptLog = args.interruptLog;
+        this.freezeOnReset = !!args.freezeOnReset;
+        this.pythonPrinters = !!args.pythonPrinters;
+        this.loadRuntimeTypes(args.typeMap);
         this.setPathSubstitutions(args.pathSubstitutions || {});
         // Pre-connect setup. These get folded into MI2.initCommands so they
         // execute before `target-select remote`. Required for gdb-set osabi
@@ -70,9 +160,19 @@ class CosmosGdbSession extends MI2DebugSession {
         for (const cmd of args.setupCommands || []) {
             this.miDebugger.extraCommands.push(cmd);
         }
+        // Keep gdb's own budget in line with ours so it never reports a
+        // watchpoint as placed that the gdbstub then fails to insert.
+        this.miDebugger.extraCommands.push(`gdb-set remote hardware-watchpoint-limit ${HARDWARE_WATCHPOINT_SLOTS}`);
         this.initDebugger();
+        // Ahead of the stop handlers, which read the log from the run start.
+        this.miDebugger.on('exec-async-output', (info: MINode) => {
+            if (this.interruptLog && info.outOfBandRecord.some(r => r.type === 'exec' && r.asyncClass === 'stopped')) {
+                this.interruptLogRunStart = this.interruptLogStop;
+                this.interruptLogStop = logSize(this.interruptLog);
+            }
+        });
         this.quit = false;
-        this.attached = false;
+        this.attached = !!args.detachOnDisconnect;
         this.initialRunCommand = RunCommand.CONTINUE;
         this.isSSH = false;
         this.started = false;
@@ -81,7 +181,7 @@ class CosmosGdbSession extends MI2DebugSession {
         this.miDebugger.frameFilters = false;
         this.miDebugger.printCalls = false;
         this.miDebugger.debugOutput = !!args.showDevDebugOutput;
-        this.stopAtEntry = false;
+        this.stopAtEntry = args.stopAtEntry || false;
         this.miDebugger.registerLimit = args.registerLimit ?? '';
 
         this.miDebugger
@@ -92,6 +192,818 @@ class CosmosGdbSession extends MI2DebugSession {
             );
     }
 
+    // Backs the Disassembly view, which VS Code also opens on its own for
+    // frames without source (boot stubs, ILC-generated helpers, yasm code).
+    protected override async disassembleRequest(
+        response: DebugProtocol.DisassembleResponse,
+        args: DebugProtocol.DisassembleArguments
+    ): Promise<void> {
+        try {
+            const base = BigInt(args.memoryReference) + BigInt(args.offset ?? 0);
+            const disassemble = (start: bigint, end: bigint) =>
+                this.miDebugger.disassemble(`0x${start.toString(16)}`, `0x${end.toString(16)}`).catch(() => []);
+            const instructions = await disassembleWindow(
+                disassemble, this.arch, base, args.instructionOffset ?? 0, args.instructionCount
+            );
+            response.body = { instructions };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 113, `Failed to disassemble: ${err?.message || err}`);
+        }
+    }
+
+    // Hex editor ("View Binary Data") on a pointer's memoryReference. Only
+    // reached while the guest is stopped; the extension-side adapter serves
+    // reads over QMP while it runs.
+    protected override async readMemoryRequest(
+        response: DebugProtocol.ReadMemoryResponse,
+        args: DebugProtocol.ReadMemoryArguments
+    ): Promise<void> {
+        try {
+            const start = BigInt(args.memoryReference) + BigInt(args.offset ?? 0);
+            const { address, data, unreadable } = await this.miDebugger.readMemoryBytes(start, args.count);
+            response.body = {
+                address: `0x${address.toString(16)}`,
+                data: data.toString('base64'),
+                unreadableBytes: unreadable
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 114, `Failed to read memory: ${err?.message || err}`);
+        }
+    }
+
+    protected override async writeMemoryRequest(
+        response: DebugProtocol.WriteMemoryResponse,
+        args: DebugProtocol.WriteMemoryArguments
+    ): Promise<void> {
+        try {
+            const address = BigInt(args.memoryReference) + BigInt(args.offset ?? 0);
+            const data = Buffer.from(args.data, 'base64');
+            await this.miDebugger.writeMemoryBytes(address, data);
+            response.body = { bytesWritten: data.length };
+            this.sendResponse(response);
+            // Variables showing the old bytes are stale now.
+            this.sendEvent(new InvalidatedEvent(['variables']));
+        } catch (err) {
+            this.sendErrorResponse(response, 115, `Failed to write memory: ${err?.message || err}`);
+        }
+    }
+
+    // One DAP thread per vCPU; stacks, registers and stepping follow the
+    // thread VS Code asks about.
+    protected override async threadsRequest(response: DebugProtocol.ThreadsResponse): Promise<void> {
+        if (!this.miDebugger) {
+            this.sendResponse(response);
+            return;
+        }
+        try {
+            const threads = await this.miDebugger.getThreads();
+            response.body = {
+                threads: threads.map((thread, index) => new Thread(thread.id, vcpuThreadName(thread, index)))
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            // Asked while the guest runs: no threads rather than an error.
+            if (/thread is running|target is running/i.test(err?.message || '')) {
+                this.sendResponse(response);
+                return;
+            }
+            this.sendErrorResponse(response, 17, `Could not get threads: ${err}`);
+        }
+    }
+
+    protected override scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments): void {
+        const [threadId, level] = this.frameIdToThreadAndLevel(args.frameId);
+        response.body = {
+            scopes: [
+                this.createScope('Locals', threadId, level, false),
+                this.createScope('Registers', threadId, level, false),
+                // Expensive: a monitor round trip on x64, so only on demand.
+                this.createScope(SYSTEM_REGISTERS_SCOPE, threadId, level, true)
+            ]
+        };
+        this.sendResponse(response);
+    }
+
+    protected override async variablesRequest(
+        response: DebugProtocol.VariablesResponse,
+        args: DebugProtocol.VariablesArguments
+    ): Promise<void> {
+        const handle = this.variableHandles.get(args.variablesReference);
+        if (handle instanceof SystemRegisterNode) {
+            response.body = { variables: handle.variables };
+            this.sendResponse(response);
+            return;
+        }
+        if (handle instanceof VariableScope && handle.name === SYSTEM_REGISTERS_SCOPE) {
+            try {
+                response.body = { variables: await this.systemRegisterVariables(handle.threadId) };
+                this.sendResponse(response);
+            } catch (err) {
+                this.sendErrorResponse(response, 118, `Could not read system registers: ${err?.message || err}`);
+            }
+            return;
+        }
+        return super.variablesRequest(response, args);
+    }
+
+    // Without Python in gdb, cosmos_prettyprint.py never loads; the
+    // formatter gives the same views of strings, arrays, objects and BCL
+    // collections over MI.
+    protected override async formatStackVariable(
+        variable: { name: string; type: string },
+        threadId: number,
+        level: number,
+        createVariable: (expression: string) => number
+    ): Promise<DebugProtocol.Variable | undefined> {
+        const kind = this.pythonPrinters ? undefined : managedKind(variable.type || '');
+        if (!kind) {
+            return undefined;
+        }
+        let view: ManagedView;
+        try {
+            view = await this.managedFormatter(threadId, level).view(kind, variable.name, variable.type);
+        } catch {
+            return undefined;
+        }
+        return {
+            name: variable.name,
+            type: variable.type,
+            value: view.value,
+            variablesReference: this.viewReference(view, variable.name, createVariable)
+        };
+    }
+
+    protected override async expandExpression(
+        expression: string,
+        threadId: number,
+        level: number,
+        createVariable: (expression: string) => number
+    ): Promise<DebugProtocol.Variable[] | undefined> {
+        if (this.pythonPrinters) {
+            return undefined;
+        }
+        const described = await this.miDebugger.describeExpression(expression, threadId, level).catch(() => undefined);
+        if (!described) {
+            return undefined;
+        }
+        const kind = managedKind(described.type || '');
+        const view = kind && await this.managedFormatter(threadId, level).view(kind, expression, described.type).catch(() => undefined);
+        if (view?.children) {
+            return this.managedChildren(view.children, threadId, level, createVariable);
+        }
+        return this.expandFields(expression, threadId, level, createVariable).catch(() => undefined);
+    }
+
+    // Watch, hovers and the Debug Console take C# (see csharpExpression.ts)
+    // and show managed values the way Variables does. Text that is no C#
+    // goes to gdb as before, so gdb expressions and commands keep working.
+    protected override async evaluateRequest(
+        response: DebugProtocol.EvaluateResponse,
+        args: DebugProtocol.EvaluateArguments
+    ): Promise<void> {
+        const repl = args.context !== 'watch' && args.context !== 'hover';
+        // `-` starts an MI command in the Debug Console.
+        if (repl && args.expression.startsWith('-')) {
+            return super.evaluateRequest(response, args);
+        }
+        const [threadId, level] = this.frameIdToThreadAndLevel(args.frameId);
+        let expression: string;
+        try {
+            const translator = new CSharpTranslator(async e => (await this.miDebugger.describeExpression(e, threadId, level)).type);
+            expression = await translator.translate(args.expression);
+        } catch (err) {
+            // A lone unknown word in the Debug Console is a gdb command (`bt`, `finish`).
+            if (!(err instanceof ExpressionError) || err.passThrough || (repl && /^\s*\w+\s*$/.test(args.expression))) {
+                return super.evaluateRequest(response, args);
+            }
+            if (args.context === 'hover') {
+                this.sendResponse(response);
+            } else {
+                this.sendErrorResponse(response, 7, err.message);
+            }
+            return;
+        }
+
+        if (!this.pythonPrinters) {
+            const described = await this.miDebugger.describeExpression(expression, threadId, level).catch(() => undefined);
+            const kind = described && managedKind(described.type || '');
+            const view = kind && await this.managedFormatter(threadId, level).view(kind, expression, described.type).catch(() => undefined);
+            if (view) {
+                response.body = {
+                    result: view.value,
+                    type: described.type,
+                    variablesReference: this.viewReference(view, expression, e => this.variableHandles.create(new ExpressionHandle(e, threadId, level)))
+                };
+                this.sendResponse(response);
+                return;
+            }
+        }
+        if (!repl) {
+            return super.evaluateRequest(response, { ...args, expression });
+        }
+        try {
+            const value = (await this.miDebugger.evalExpression(expression, threadId, level)).result('value');
+            response.body = {
+                result: value,
+                variablesReference: value.startsWith('{') ? this.variableHandles.create(new ExpressionHandle(expression, threadId, level)) : 0,
+                memoryReference: pointerMemoryReference(value)
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 8, err?.message || String(err));
+        }
+    }
+
+    private managedFormatter(threadId: number, level: number): ManagedFormatter {
+        return new ManagedFormatter(
+            async expression => (await this.miDebugger.evalExpression(expression, threadId, level)).result('value'),
+            async (address, length) => (await this.miDebugger.readMemoryBytes(address, length)).data,
+            this.runtimeTypes
+        );
+    }
+
+    private viewReference(view: ManagedView, expression: string, createVariable: (expression: string) => number): number {
+        if (view.children) {
+            return createVariable(expression);
+        }
+        return view.expand ? createVariable(view.expand) : 0;
+    }
+
+    // The Python printers read the map themselves; the formatter needs it
+    // for Object references either way.
+    private loadRuntimeTypes(mapPath: string | undefined): void {
+        if (!mapPath) {
+            return;
+        }
+        try {
+            this.runtimeTypes.load(JSON.parse(fs.readFileSync(mapPath, 'utf8')));
+        } catch {
+            // Objects then show their MethodTable address.
+        }
+    }
+
+    // Struct members, listed through a varobj and formatted one by one so a
+    // String field reads "hello" however deeply it is nested. Elements and
+    // members are expanded through their expressions. The per-field MI
+    // commands are sent together rather than waiting on each in turn.
+    private async expandFields(
+        expression: string,
+        threadId: number,
+        level: number,
+        createVariable: (expression: string) => number
+    ): Promise<DebugProtocol.Variable[]> {
+        const root = await this.miDebugger.varCreate(threadId, level, expression);
+        try {
+            const fields = await this.fieldObjects(root);
+            const paths = await Promise.all(fields.map(field => this.miDebugger.sendCommand(`var-info-path-expression ${field.name}`)));
+            return await Promise.all(fields.map((field, i) =>
+                this.formatValue(field.exp, paths[i].result('path_expr'), field, threadId, level, createVariable)));
+        } finally {
+            await this.miDebugger.sendCommand(`var-delete ${root.name}`).catch(() => undefined);
+        }
+    }
+
+    // A varobj's children with C++ access groups and base classes flattened
+    // and the object header left out, as the .NET debugger lists fields.
+    private async fieldObjects(parent: VariableObject): Promise<VariableObject[]> {
+        const fields: VariableObject[] = [];
+        for (const child of await this.miDebugger.varListChildren(parent.name)) {
+            if (!child.type || child.exp === child.type) {
+                fields.push(...await this.fieldObjects(child));
+            } else if (child.exp !== 'm_pEEType') {
+                fields.push(child);
+            }
+        }
+        return fields;
+    }
+
+    // A view's children are elements of one collection and share a type:
+    // one varobj describes the first, and the rest are only evaluated, with
+    // the evaluations sent together.
+    private async managedChildren(
+        children: ManagedChild[],
+        threadId: number,
+        level: number,
+        createVariable: (expression: string) => number
+    ): Promise<DebugProtocol.Variable[]> {
+        if (children.length === 0) {
+            return [];
+        }
+        let element: VariableObject;
+        try {
+            element = await this.miDebugger.describeExpression(children[0].expression, threadId, level);
+        } catch (err) {
+            return children.map(child => ({ name: child.name, value: `<${err?.message || err}>`, variablesReference: 0 }));
+        }
+        return Promise.all(children.map(async child => {
+            let value: string;
+            try {
+                value = (await this.miDebugger.evalExpression(child.expression, threadId, level)).result('value');
+            } catch (err) {
+                return { name: child.name, value: `<${err?.message || err}>`, variablesReference: 0 };
+            }
+            const described = { type: element.type, value, numchild: element.numchild };
+            return this.formatValue(child.name, child.expression, described, threadId, level, createVariable);
+        }));
+    }
+
+    private async formatValue(
+        name: string,
+        expression: string,
+        described: { type: string; value: string; numchild: number },
+        threadId: number,
+        level: number,
+        createVariable: (expression: string) => number
+    ): Promise<DebugProtocol.Variable> {
+        const type = described.type;
+        const kind = managedKind(type || '');
+        const view = kind && await this.managedFormatter(threadId, level).view(kind, expression, type).catch(() => undefined);
+        if (view) {
+            return { name, type, value: view.value, variablesReference: this.viewReference(view, expression, createVariable) };
+        }
+        if (described.value?.startsWith('{')) {
+            // Primitives and enums are structs that wrap one field. A varobj
+            // shows both as {...}; the text tells them apart, and is read
+            // only until a type turns out to be a real struct.
+            let text = described.value;
+            if (text === '{...}' && !this.structTypes.has(type)) {
+                text = await this.miDebugger.evalExpression(expression, threadId, level).then(res => res.result('value'), () => text);
+                if (text !== '{...}' && simplifyValueText(text).startsWith('{')) {
+                    this.structTypes.add(type);
+                }
+            }
+            text = simplifyValueText(text);
+            return text.startsWith('{')
+                ? { name, type, value: '{...}', variablesReference: createVariable(expression) }
+                : { name, type, value: text, variablesReference: 0 };
+        }
+        const value = described.value ?? '';
+        const pointer = /^0x[0-9a-fA-F]+/.exec(value);
+        if (pointer && BigInt(pointer[0]) === 0n) {
+            return { name, type, value, variablesReference: 0 };
+        }
+        return {
+            name,
+            type,
+            value,
+            variablesReference: described.numchild > 0 ? createVariable(expression) : 0,
+            memoryReference: pointer?.[0]
+        };
+    }
+
+    // Raw values of the registers the decoder knows, by lower-cased name.
+    private async readSystemRegisters(threadId: number): Promise<Map<string, bigint>> {
+        if (!this.registerNumbers) {
+            const names = await this.miDebugger.getRegisterNames();
+            this.registerNumbers = new Map();
+            names.forEach((name, index) => {
+                if (name) {
+                    this.registerNumbers.set(name.toLowerCase(), index);
+                }
+            });
+        }
+        const wanted = systemRegisterSources(this.arch)
+            .map(name => this.registerNumbers.get(name))
+            .filter((n): n is number => n !== undefined);
+        const byNumber = new Map<number, string>();
+        this.registerNumbers.forEach((index, name) => byNumber.set(index, name));
+
+        const values = new Map<string, bigint>();
+        if (wanted.length > 0) {
+            for (const { index, value } of await this.miDebugger.getRegisterValues('x', wanted, threadId)) {
+                try {
+                    values.set(byNumber.get(index), BigInt(value));
+                } catch {
+                    // Vector or union registers; none of the decoded ones.
+                }
+            }
+        }
+        return values;
+    }
+
+    private async systemRegisterVariables(threadId: number): Promise<DebugProtocol.Variable[]> {
+        const values = await this.readSystemRegisters(threadId);
+        let monitorDump: string | undefined;
+        if (wantsMonitorDump(this.arch)) {
+            monitorDump = await this.miDebugger.monitorCommand('info registers').catch(() => undefined);
+        }
+
+        const readOnly: DebugProtocol.VariablePresentationHint = { attributes: ['readOnly'] };
+        return decodeSystemRegisters(this.arch, values, monitorDump).map(group => {
+            const registers = group.registers.map(register => ({
+                name: register.name,
+                value: register.value,
+                // Shown as the hover on the name.
+                type: register.description,
+                presentationHint: readOnly,
+                variablesReference: register.fields.length
+                    ? this.variableHandles.create(new SystemRegisterNode(register.fields.map(field => ({
+                        name: field.name,
+                        value: field.value,
+                        type: field.description,
+                        presentationHint: readOnly,
+                        variablesReference: 0
+                    }))))
+                    : 0
+            }));
+            return {
+                name: group.name,
+                value: registers.map(r => r.name).join(', '),
+                variablesReference: this.variableHandles.create(new SystemRegisterNode(registers))
+            };
+        });
+    }
+
+    // The Kernel Panic / CPU Exceptions filters in the Breakpoints view
+    // break on the entry points the extension found in the ELF.
+    protected override async setExceptionBreakPointsRequest(
+        response: DebugProtocol.SetExceptionBreakpointsResponse,
+        args: DebugProtocol.SetExceptionBreakpointsArguments
+    ): Promise<void> {
+        try {
+            for (const id of this.crashBreakpoints.keys()) {
+                await this.miDebugger.sendCommand(`break-delete ${id}`);
+            }
+            this.crashBreakpoints.clear();
+            for (const kind of ['panic', 'cpuException'] as const) {
+                if (!args.filters.includes(kind)) {
+                    continue;
+                }
+                if (this.entryPoints[kind].length === 0) {
+                    this.handleMsg('console', `No ${kind === 'panic' ? 'panic' : 'CPU exception'} entry point found in the kernel; the filter has no effect.\n`);
+                }
+                for (const entryPoint of this.entryPoints[kind]) {
+                    const result = await this.miDebugger.sendCommand(`break-insert -f ${entryPoint}`);
+                    this.crashBreakpoints.set(parseInt(result.result('bkpt.number')), { kind, entryPoint });
+                }
+            }
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 119, `Failed to set exception breakpoints: ${err?.message || err}`);
+        }
+    }
+
+    protected override handleBreakpoint(info: MINode): void {
+        const hit = this.crashBreakpoints.get(parseInt(info.record('bkptno')));
+        if (!hit) {
+            super.handleBreakpoint(info);
+            return;
+        }
+        this.reportCrash(hit.kind, parseInt(info.record('thread-id')), hit.entryPoint)
+            .catch(() => super.handleBreakpoint(info));
+    }
+
+    // With -no-reboot -no-shutdown a triple fault (or any guest reset)
+    // freezes the VM, which the gdbstub reports as SIGQUIT.
+    protected override handlePause(info: MINode): void {
+        if (this.freezeOnReset && info?.record('signal-name') === 'SIGQUIT') {
+            this.reportCrash('guestReset', parseInt(info.record('thread-id')) || 1)
+                .catch(() => super.handlePause(info));
+            return;
+        }
+        super.handlePause(info);
+    }
+
+    private async reportCrash(kind: CrashKind, threadId: number, entryPoint?: string): Promise<void> {
+        const log = this.interruptLog ? readLogTail(this.interruptLog, this.interruptLogRunStart) : undefined;
+        const logged = log ? lastLoggedException(log, this.arch) : undefined;
+        const registers = await this.readSystemRegisters(threadId).catch(() => new Map<string, bigint>());
+        const panicMessage = kind === 'panic' && entryPoint ? await this.readPanicMessage(threadId, entryPoint) : undefined;
+        const stack = await this.miDebugger.getStack(0, CRASH_STACK_DEPTH, threadId).then(
+            frames => frames.map(f => {
+                const name = f.function ? demangleNativeAotSymbol(f.function).display : '??';
+                return `#${f.level} ${f.address} ${name}${f.fileName ? ` (${f.fileName}:${f.line})` : ''}`;
+            }),
+            () => []
+        );
+        this.crashReport = buildCrashReport(kind, { arch: this.arch, entryPoint, panicMessage, logged, registers, stack });
+
+        const event = new StoppedEvent('exception', threadId, this.crashReport.title);
+        (event as DebugProtocol.StoppedEvent).body.description = this.crashReport.title;
+        (event as DebugProtocol.StoppedEvent).body.allThreadsStopped = true;
+        this.sendEvent(event);
+    }
+
+    // Managed Panic(string) takes the message as its first argument: a
+    // NativeAOT String is MethodTable*, int32 length, then UTF-16 chars.
+    private async readPanicMessage(threadId: number, entryPoint: string): Promise<string | undefined> {
+        if (demangleNativeAotSymbol(entryPoint).kind !== 'method') {
+            return undefined;
+        }
+        try {
+            const register = this.arch === 'arm64' ? '$x0' : '$rdi';
+            const pointer = (await this.miDebugger.evalExpression(`(unsigned long long)${register}`, threadId, 0)).result('value');
+            const base = BigInt(pointer);
+            if (base === 0n) {
+                return undefined;
+            }
+            const header = await this.miDebugger.readMemoryBytes(base + 8n, 4);
+            if (header.data.length < 4) {
+                return undefined;
+            }
+            const length = header.data.readInt32LE(0);
+            if (length < 0 || length > 1 << 20) {
+                return undefined;
+            }
+            const chars = await this.miDebugger.readMemoryBytes(base + 12n, Math.min(length, MAX_PANIC_MESSAGE) * 2);
+            const text = chars.data.toString('utf16le');
+            return length > MAX_PANIC_MESSAGE ? `${text}…` : text;
+        } catch {
+            return undefined;
+        }
+    }
+
+    protected override exceptionInfoRequest(
+        response: DebugProtocol.ExceptionInfoResponse,
+        _args: DebugProtocol.ExceptionInfoArguments
+    ): void {
+        const report = this.crashReport;
+        if (!report) {
+            this.sendErrorResponse(response, 120, 'No exception information available.');
+            return;
+        }
+        const message = report.fields.find(([label]) => label === 'Message')?.[1];
+        response.body = {
+            exceptionId: report.kind,
+            description: message ?? report.fields.map(([label, value]) => `${label}: ${value}`).join('\n'),
+            breakMode: 'always',
+            details: {
+                message: message ?? report.title,
+                typeName: report.title,
+                stackTrace: formatCrashReport(report)
+            }
+        };
+        this.sendResponse(response);
+    }
+
+    // "Break on Value Change/Read/Access" in the Variables view. The variable
+    // is resolved to its address and size up front so the watchpoint covers
+    // that memory, not whatever the expression names later.
+    protected override async dataBreakpointInfoRequest(
+        response: DebugProtocol.DataBreakpointInfoResponse,
+        args: DebugProtocol.DataBreakpointInfoArguments
+    ): Promise<void> {
+        let expression: string;
+        let thread: number;
+        let frame: number;
+        try {
+            [expression, thread, frame] = await this.dataBreakpointExpression(args);
+        } catch (err) {
+            // gdb has no path expression for children of dynamic varobjs
+            // (pretty-printed elements).
+            response.body = { dataId: null, description: `${args.name} has no address gdb can watch: ${err?.message || err}` };
+            this.sendResponse(response);
+            return;
+        }
+        try {
+            const region = await this.resolveRegion(`&(${expression})`, `sizeof(${expression})`, thread, frame);
+            const slots = slotsNeeded(this.arch, region);
+            if (slots > HARDWARE_WATCHPOINT_SLOTS) {
+                response.body = {
+                    dataId: null,
+                    description: `${expression} is ${region.size} bytes, more than ${HARDWARE_WATCHPOINT_SLOTS} hardware watchpoints can cover`
+                };
+            } else {
+                response.body = {
+                    dataId: formatDataId(region),
+                    description: `${expression} (${region.size} bytes at 0x${region.address.toString(16)})`,
+                    accessTypes: ['write', 'read', 'readWrite'],
+                    canPersist: false
+                };
+            }
+        } catch (err) {
+            response.body = { dataId: null, description: `${expression} is not in memory` };
+        }
+        this.sendResponse(response);
+    }
+
+    // VS Code sends the full list every time. Unlike the base class, this
+    // drops the previous set and answers every breakpoint in order, failed
+    // ones with the reason, so the extension can map results back to names.
+    protected override async setFunctionBreakPointsRequest(
+        response: DebugProtocol.SetFunctionBreakpointsResponse,
+        args: DebugProtocol.SetFunctionBreakpointsArguments
+    ): Promise<void> {
+        for (const old of this.functionBreakpoints) {
+            await this.miDebugger.removeBreakPoint(old).catch(() => undefined);
+        }
+        this.functionBreakpoints = [];
+        const breakpoints: DebugProtocol.Breakpoint[] = [];
+        for (const bp of args.breakpoints) {
+            try {
+                const [added, brk] = await this.miDebugger.addBreakPoint({ raw: bp.name, condition: bp.condition, countCondition: bp.hitCondition });
+                if (added) {
+                    this.functionBreakpoints.push(brk);
+                    breakpoints.push({ verified: true, line: Number.isNaN(brk.line) ? undefined : brk.line });
+                } else {
+                    breakpoints.push({ verified: false, message: `gdb could not set a breakpoint on ${bp.name}` });
+                }
+            } catch (err) {
+                breakpoints.push({ verified: false, message: err?.message || String(err) });
+            }
+        }
+        response.body = { breakpoints };
+        this.sendResponse(response);
+    }
+
+    // VS Code sends the full list every time; watchpoints that are still
+    // listed keep their slot, the rest are deleted before new ones go in.
+    protected override async setDataBreakpointsRequest(
+        response: DebugProtocol.SetDataBreakpointsResponse,
+        args: DebugProtocol.SetDataBreakpointsArguments
+    ): Promise<void> {
+        const wanted = args.breakpoints.map(bp => ({ bp, key: `${bp.dataId}/${bp.accessType ?? 'write'}` }));
+        const wantedKeys = new Set(wanted.map(w => w.key));
+        try {
+            for (const watch of this.watches.filter(w => !w.fromCommand && !wantedKeys.has(w.key))) {
+                await this.deleteWatch(watch);
+            }
+            const breakpoints: DebugProtocol.Breakpoint[] = [];
+            for (const { bp, key } of wanted) {
+                const existing = this.watches.find(w => !w.fromCommand && w.key === key);
+                if (existing) {
+                    await this.miDebugger.setBreakPointCondition(existing.id, bp.condition ?? '');
+                    breakpoints.push({ id: existing.id, verified: true });
+                    continue;
+                }
+                const region = parseDataId(bp.dataId);
+                if (!region) {
+                    breakpoints.push({ verified: false, message: `Unknown data breakpoint ${bp.dataId}` });
+                    continue;
+                }
+                breakpoints.push(await this.placeWatch(key, region, bp.accessType ?? 'write', false, bp.condition));
+            }
+            response.body = { breakpoints };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 116, `Failed to set data breakpoints: ${err?.message || err}`);
+        }
+    }
+
+    // Raw-address watchpoints from the cosmos.watchAddress command. They
+    // aren't in VS Code's breakpoint list, so they are managed here.
+    protected override async customRequest(
+        command: string,
+        response: DebugProtocol.Response,
+        args: any
+    ): Promise<void> {
+        try {
+            switch (command) {
+                case 'cosmos/watchAddress': {
+                    // `address` is any gdb expression: 0x..., a symbol, &obj->field,
+                    // evaluated in the frame selected in Call Stack.
+                    const [thread, frame] = args.frameId !== undefined ? this.frameIdToThreadAndLevel(args.frameId) : [args.threadId ?? 0, 0];
+                    const region = await this.resolveRegion(`(unsigned long long)(${args.address})`, String(args.size), thread, frame);
+                    const access: WatchAccess = args.accessType ?? 'write';
+                    response.body = await this.placeWatch(`${formatDataId(region)}/${access}`, region, access, true);
+                    break;
+                }
+                case 'cosmos/removeAddressWatch': {
+                    const watch = this.watches.find(w => w.fromCommand && w.id === args.id);
+                    if (watch) {
+                        await this.deleteWatch(watch);
+                    }
+                    break;
+                }
+                case 'cosmos/functionSignatures': {
+                    // gdb's type for each function, e.g. `void (MyKernel::Kernel *, int)`.
+                    const signatures: { [symbol: string]: string } = {};
+                    for (const symbol of args.symbols ?? []) {
+                        const described = await this.miDebugger.describeExpression(`'${symbol}'`, 0, 0).catch(() => undefined);
+                        if (described?.type) {
+                            signatures[symbol] = described.type;
+                        }
+                    }
+                    response.body = { signatures };
+                    break;
+                }
+                case 'cosmos/crashReport':
+                    response.body = { text: this.crashReport ? formatCrashReport(this.crashReport) : undefined };
+                    break;
+                // Restart: the extension swaps the QEMU underneath us.
+                case 'cosmos/disconnectTarget':
+                    await this.miDebugger.sendCommand('target-disconnect');
+                    break;
+                case 'cosmos/reload':
+                    // A reset guest or a new QEMU, possibly with a rebuilt ELF.
+                    // gdb re-resolves its breakpoints against the new symbols.
+                    this.crashReport = undefined;
+                    this.structTypes.clear();
+                    this.entryPoints = args.exceptionEntryPoints ?? this.entryPoints;
+                    await this.miDebugger.sendCommand(`file-exec-and-symbols "${escape(args.executable)}"`);
+                    this.loadRuntimeTypes(args.typeMap);
+                    if (args.typeMap && this.pythonPrinters) {
+                        await this.miDebugger.sendCommand(typeMapLoadCommand(args.typeMap));
+                    }
+                    if (args.target) {
+                        // The new QEMU started its interrupt log over.
+                        this.interruptLogStop = 0;
+                        await this.miDebugger.sendCommand(`target-select remote ${args.target}`);
+                    } else {
+                        await this.miDebugger.sendCommand('interpreter-exec console "maintenance flush register-cache"');
+                    }
+                    break;
+                case 'cosmos/addressWatches':
+                    response.body = {
+                        watches: this.watches.filter(w => w.fromCommand).map(w => ({
+                            id: w.id,
+                            address: `0x${w.region.address.toString(16)}`,
+                            size: w.region.size,
+                            accessType: w.access
+                        }))
+                    };
+                    break;
+                default:
+                    super.customRequest(command, response, args);
+                    return;
+            }
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 117, `${command} failed: ${err?.message || err}`);
+        }
+    }
+
+    // The expression a Variables view entry stands for, with the thread and
+    // frame it has to be evaluated in.
+    private async dataBreakpointExpression(
+        args: DebugProtocol.DataBreakpointInfoArguments
+    ): Promise<[string, number, number]> {
+        const parent = args.variablesReference ? this.variableHandles.get(args.variablesReference) : undefined;
+        if (parent instanceof VariableScope) {
+            return [args.name, parent.threadId, parent.level];
+        }
+        if (parent instanceof VariableObject) {
+            const path = await this.miDebugger.sendCommand(`var-info-path-expression ${parent.name}.${args.name}`);
+            return [path.result('path_expr'), ...this.varObjFrame(parent)];
+        }
+        if (parent instanceof ExpressionHandle) {
+            // parseText children: the handle is the parent's expression.
+            const expression = parent.expression;
+            return [args.name.startsWith('[') ? `(${expression})${args.name}` : `(${expression}).${args.name}`, parent.threadId, parent.level];
+        }
+        return [args.name, 0, 0];
+    }
+
+    // Root varobjs are named after the scope handle they were created in
+    // (VariableScope.variableName); children extend their root's name.
+    private varObjFrame(varObj: VariableObject): [number, number] {
+        const handle = /^var_(\d+)_/.exec(varObj.name);
+        const scope = handle ? this.variableHandles.get(parseInt(handle[1], 10)) : undefined;
+        return scope instanceof VariableScope ? [scope.threadId, scope.level] : [0, 0];
+    }
+
+    private async resolveRegion(addressExpr: string, sizeExpr: string, thread: number, frame: number): Promise<WatchRegion> {
+        const addressValue = (await this.miDebugger.evalExpression(addressExpr, thread, frame)).result('value');
+        const sizeValue = (await this.miDebugger.evalExpression(sizeExpr, thread, frame)).result('value');
+        const address = pointerMemoryReference(addressValue) ?? (/^\d+$/.test(addressValue) ? addressValue : undefined);
+        const size = parseInt(sizeValue, 10);
+        if (!address || !(size > 0)) {
+            throw new Error(`${addressExpr} does not name memory`);
+        }
+        return { address: BigInt(address), size };
+    }
+
+    private async placeWatch(
+        key: string,
+        region: WatchRegion,
+        access: WatchAccess,
+        fromCommand: boolean,
+        condition?: string
+    ): Promise<DebugProtocol.Breakpoint> {
+        const slots = slotsNeeded(this.arch, region);
+        const used = this.watches.reduce((sum, w) => sum + w.slots, 0);
+        const where = `${region.size} bytes at 0x${region.address.toString(16)}`;
+        if (used + slots > HARDWARE_WATCHPOINT_SLOTS) {
+            return {
+                verified: false,
+                message: `No hardware watchpoint slot free for ${where}: needs ${slots}, ` +
+                    `${HARDWARE_WATCHPOINT_SLOTS - used} of ${HARDWARE_WATCHPOINT_SLOTS} left. Remove another data breakpoint first.`
+            };
+        }
+        let placed: { id: number, hardware: boolean };
+        try {
+            placed = await this.miDebugger.addWatchpoint(watchExpression(region), access);
+        } catch (err) {
+            return { verified: false, message: `gdb could not watch ${where}: ${err?.message || err}` };
+        }
+        if (!placed.hardware) {
+            await this.miDebugger.removeWatchpoint(placed.id);
+            return { verified: false, message: `No hardware watchpoint available for ${where}; software watchpoints are not supported on the kernel.` };
+        }
+        if (condition) {
+            await this.miDebugger.setBreakPointCondition(placed.id, condition);
+        }
+        this.watches.push({ id: placed.id, key, region, access, slots, fromCommand });
+        return { id: placed.id, verified: true, message: `Breaks on ${describeAccess(access)} of ${where}` };
+    }
+
+    private async deleteWatch(watch: Watch): Promise<void> {
+        this.watches = this.watches.filter(w => w !== watch);
+        await this.miDebugger.removeWatchpoint(watch.id);
+    }
+
     protected setPathSubstitutions(substitutions: { [src: string]: string }): void {
         for (const src of Object.keys(substitutions)) {
             this.miDebugger.extraCommands.push(
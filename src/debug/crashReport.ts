@@ -0,0 +1,326 @@
+// Crash reports for kernel panics, CPU exceptions and guest resets. The
+// facts come from QEMU's `-d int,cpu_reset` log when the session writes one
+// (vector, error code and faulting address exactly as the CPU raised them)
+// and from the current registers otherwise.
+import * as fs from 'fs';
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { SymbolIndex } from '../utils/symbolIndex';
+import { demangleNativeAotSymbol } from '../utils/nativeAotNames';
+import { describeSyndrome } from './registerDecoder';
+
+export type CrashKind = 'panic' | 'cpuException' | 'guestReset';
+
+// Both adapters advertise these: the extension-side one answers VS Code's
+// initialize, the gdb one implements them.
+export const EXCEPTION_FILTERS: DebugProtocol.ExceptionBreakpointsFilter[] = [
+    { filter: 'panic', label: 'Kernel Panic', default: true },
+    { filter: 'cpuException', label: 'CPU Exceptions', default: true }
+];
+
+/** Symbols the panic and CPU-exception filters break on. */
+export interface ExceptionEntryPoints {
+    panic: string[];
+    cpuException: string[];
+}
+
+// Managed members (overload suffixes like `_0` allowed) and native symbols
+// that enter the kernel's panic and exception paths.
+const PANIC_MEMBERS = /^(Kernel)?Panic(_\d+)?$/;
+const PANIC_NATIVE = new Set(['panic', 'kernel_panic', '__cosmos_panic']);
+const EXCEPTION_MEMBERS = /^(Handle(Cpu)?Exception|OnCpuException|ExceptionHandler|HandleFault)(_\d+)?$/;
+const EXCEPTION_NATIVE = new Set(['exception_handler', '__exception_handler', '__cosmos_exception_handler', 'isr_common', 'isr_common_stub']);
+
+/**
+ * Entry points found in the kernel image. Explicit symbol lists from
+ * launch.json replace the built-in patterns for their filter.
+ */
+export function findExceptionEntryPoints(
+    symbols: SymbolIndex,
+    overrides: { panic?: string[]; cpuException?: string[] } = {}
+): ExceptionEntryPoints {
+    const match = (members: RegExp, native: Set<string>) => symbols.findNames(name => {
+        const demangled = demangleNativeAotSymbol(name);
+        return demangled.kind === 'native' ? native.has(name) : demangled.kind === 'method' && members.test(demangled.member ?? '');
+    }).sort();
+    return {
+        panic: overrides.panic ?? match(PANIC_MEMBERS, PANIC_NATIVE),
+        cpuException: overrides.cpuException ?? match(EXCEPTION_MEMBERS, EXCEPTION_NATIVE)
+    };
+}
+
+/** An exception as QEMU logged it when the guest took it. */
+export interface LoggedException {
+    vector: number;
+    name: string;
+    errorCode?: number;
+    faultAddress?: bigint;
+    instructionPointer?: bigint;
+    syndrome?: bigint;
+    tripleFault: boolean;
+    excerpt: string;
+}
+
+const X64_VECTORS: { [vector: number]: string } = {
+    0: '#DE Divide error',
+    1: '#DB Debug',
+    2: 'NMI',
+    3: '#BP Breakpoint',
+    4: '#OF Overflow',
+    5: '#BR Bound range exceeded',
+    6: '#UD Invalid opcode',
+    7: '#NM Device not available',
+    8: '#DF Double fault',
+    10: '#TS Invalid TSS',
+    11: '#NP Segment not present',
+    12: '#SS Stack-segment fault',
+    13: '#GP General protection fault',
+    14: '#PF Page fault',
+    16: '#MF x87 floating-point error',
+    17: '#AC Alignment check',
+    18: '#MC Machine check',
+    19: '#XM SIMD floating-point error',
+    20: '#VE Virtualization exception',
+    21: '#CP Control protection'
+};
+
+// Vectors that push an error code; QEMU logs e=0000 for the others.
+const X64_ERROR_CODE_VECTORS = new Set([8, 10, 11, 12, 13, 14, 17, 21]);
+
+const EXCERPT_LINES = 40;
+const LOG_TAIL_BYTES = 512 * 1024;
+
+/**
+ * The end of the interrupt log from byte `from` on; exceptions of interest
+ * are the latest ones. A log shorter than `from` was started over by a new
+ * QEMU and is read from its beginning.
+ */
+export function readLogTail(logPath: string, from = 0): string | undefined {
+    let fd: number | undefined;
+    try {
+        fd = fs.openSync(logPath, 'r');
+        const size = fs.fstatSync(fd).size;
+        const start = Math.max(from <= size ? from : 0, size - LOG_TAIL_BYTES);
+        const length = size - start;
+        const buf = Buffer.alloc(length);
+        fs.readSync(fd, buf, 0, length, start);
+        return buf.toString('utf8');
+    } catch {
+        return undefined;
+    } finally {
+        if (fd !== undefined) {
+            fs.closeSync(fd);
+        }
+    }
+}
+
+/** Bytes in the interrupt log so far; 0 when it cannot be read. */
+export function logSize(logPath: string): number {
+    try {
+        return fs.statSync(logPath).size;
+    } catch {
+        return 0;
+    }
+}
+
+/** The last CPU exception (not interrupt) in a `-d int` log. */
+export function lastLoggedException(log: string, arch: string | undefined): LoggedException | undefined {
+    const lines = log.split(/\r?\n/);
+    const tripleFault = lines.some(l => l.startsWith('Triple fault'));
+    return arch === 'arm64' ? lastArm64Exception(lines, tripleFault) : lastX64Exception(lines, tripleFault);
+}
+
+//      3: v=0e e=0002 i=0 cpl=0 IP=0008:ffffffff80101234 pc=ffffffff80101234 SP=0010:ffff80000009ff58 CR2=0000000000000010
+const X64_INTERRUPT = /^\s*\d+: v=([0-9a-f]+) e=([0-9a-f]+) i=(\d) cpl=\d IP=[0-9a-f]+:([0-9a-f]+) pc=[0-9a-f]+ SP=\S+(?: CR2=([0-9a-f]+))?/;
+
+function lastX64Exception(lines: string[], tripleFault: boolean): LoggedException | undefined {
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const m = X64_INTERRUPT.exec(lines[i]);
+        // i=1 is a software INT; vectors from 32 up are device interrupts.
+        if (!m || m[3] !== '0' || parseInt(m[1], 16) >= 32) {
+            continue;
+        }
+        const vector = parseInt(m[1], 16);
+        return {
+            vector,
+            name: X64_VECTORS[vector] ?? `Reserved vector ${vector}`,
+            errorCode: X64_ERROR_CODE_VECTORS.has(vector) ? parseInt(m[2], 16) : undefined,
+            faultAddress: m[5] !== undefined ? BigInt(`0x${m[5]}`) : undefined,
+            instructionPointer: BigInt(`0x${m[4]}`),
+            tripleFault,
+            excerpt: lines.slice(i, i + EXCERPT_LINES).join('\n')
+        };
+    }
+    return undefined;
+}
+
+// Taking exception 4 [Data Abort] on CPU 0
+// ...from EL1 to EL1
+// ...with ESR 0x25/0x96000045
+// ...with FAR 0x10
+// ...with ELR 0xffff000040081234
+const ARM64_TAKING = /^Taking exception (\d+) \[([^\]]+)\]/;
+
+function lastArm64Exception(lines: string[], tripleFault: boolean): LoggedException | undefined {
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const m = ARM64_TAKING.exec(lines[i]);
+        if (!m || /IRQ|FIQ/i.test(m[2])) {
+            continue;
+        }
+        const block = lines.slice(i + 1, i + 8);
+        const field = (re: RegExp) => {
+            for (const line of block) {
+                const f = re.exec(line);
+                if (f) {
+                    return BigInt(`0x${f[1]}`);
+                }
+            }
+            return undefined;
+        };
+        return {
+            vector: parseInt(m[1], 10),
+            name: m[2],
+            syndrome: field(/^\.\.\.with ESR 0x[0-9a-f]+\/0x([0-9a-f]+)/),
+            faultAddress: field(/^\.\.\.with FAR 0x([0-9a-f]+)/),
+            instructionPointer: field(/^\.\.\.with ELR 0x([0-9a-f]+)/),
+            tripleFault,
+            excerpt: lines.slice(i, i + EXCERPT_LINES).join('\n')
+        };
+    }
+    return undefined;
+}
+
+export interface CrashReport {
+    kind: CrashKind;
+    title: string;
+    /** Label/value rows, in display order. */
+    fields: [string, string][];
+    /** Rendered call stack, innermost first. */
+    stack: string[];
+    logExcerpt?: string;
+}
+
+export interface CrashReportInput {
+    arch: string | undefined;
+    /** Entry point the session stopped on, for panic and exception stops. */
+    entryPoint?: string;
+    panicMessage?: string;
+    logged?: LoggedException;
+    /** Lower-cased register names to values, for when there is no log. */
+    registers: Map<string, bigint>;
+    stack: string[];
+}
+
+export function buildCrashReport(kind: CrashKind, input: CrashReportInput): CrashReport {
+    const { arch, logged, registers } = input;
+    const fields: [string, string][] = [];
+    if (input.entryPoint) {
+        fields.push(['Stopped in', demangleNativeAotSymbol(input.entryPoint).display]);
+    }
+    if (input.panicMessage !== undefined) {
+        fields.push(['Message', input.panicMessage]);
+    }
+
+    if (logged) {
+        fields.push(['Exception', arch === 'arm64' ? `${logged.name} (QEMU exception ${logged.vector})` : `${logged.name} (vector ${logged.vector})`]);
+        if (logged.errorCode !== undefined) {
+            fields.push(['Error code', `${hex(BigInt(logged.errorCode))}${describeErrorCode(logged.vector, logged.errorCode)}`]);
+        }
+        if (logged.instructionPointer !== undefined) {
+            fields.push(['Faulting instruction', hex(logged.instructionPointer)]);
+        }
+    }
+
+    if (arch === 'arm64') {
+        const esr = logged?.syndrome ?? registers.get('esr_el1');
+        const far = logged?.faultAddress ?? registers.get('far_el1');
+        if (esr !== undefined) {
+            fields.push(['ESR_EL1', `${hex(esr)} ${describeSyndrome(esr)}`]);
+        }
+        if (far !== undefined) {
+            fields.push(['FAR_EL1', hex(far)]);
+        }
+        if (!logged && registers.has('elr_el1')) {
+            fields.push(['ELR_EL1', hex(registers.get('elr_el1')!)]);
+        }
+    } else {
+        const cr2 = logged?.faultAddress ?? (!logged || logged.vector === 14 ? registers.get('cr2') : undefined);
+        if (cr2 !== undefined) {
+            fields.push(['CR2 (fault address)', hex(cr2)]);
+        }
+    }
+
+    if (!logged && kind !== 'panic') {
+        fields.push(['Note', 'Enable "logInterrupts" in launch.json for the vector, error code and faulting instruction.']);
+    }
+
+    return {
+        kind,
+        title: crashTitle(kind, logged),
+        fields,
+        stack: input.stack,
+        logExcerpt: logged?.excerpt
+    };
+}
+
+function crashTitle(kind: CrashKind, logged: LoggedException | undefined): string {
+    switch (kind) {
+        case 'panic':
+            return 'Kernel panic';
+        case 'guestReset':
+            if (logged?.tripleFault) {
+                return `Triple fault after ${logged.name}`;
+            }
+            return logged ? `Guest reset after ${logged.name}` : 'Guest reset or shut down (possible triple fault)';
+        default:
+            return logged ? `CPU exception: ${logged.name}` : 'CPU exception';
+    }
+}
+
+function describeErrorCode(vector: number, code: number): string {
+    if (vector === 14) {
+        const parts = [
+            code & 1 ? 'protection violation' : 'page not present',
+            code & 2 ? 'write' : 'read',
+            code & 4 ? 'user mode' : 'kernel mode'
+        ];
+        if (code & 8) {
+            parts.push('reserved bit set');
+        }
+        if (code & 16) {
+            parts.push('instruction fetch');
+        }
+        if (code & 32) {
+            parts.push('protection key');
+        }
+        if (code & 64) {
+            parts.push('shadow stack');
+        }
+        return ` (${parts.join(', ')})`;
+    }
+    if (code === 0) {
+        return '';
+    }
+    // Selector error code (#TS, #NP, #SS, #GP).
+    const table = code & 2 ? 'IDT' : code & 4 ? 'LDT' : 'GDT';
+    return ` (${table} entry ${code >> 3}${code & 1 ? ', external event' : ''})`;
+}
+
+/** Plain-text report for the clipboard / an issue. */
+export function formatCrashReport(report: CrashReport): string {
+    const width = Math.max(...report.fields.map(([label]) => label.length), 0);
+    const out = [report.title, ''];
+    for (const [label, value] of report.fields) {
+        out.push(`${label.padEnd(width)}  ${value}`);
+    }
+    if (report.stack.length > 0) {
+        out.push('', 'Call stack:', ...report.stack.map(frame => `  ${frame}`));
+    }
+    if (report.logExcerpt) {
+        out.push('', 'QEMU interrupt log:', report.logExcerpt);
+    }
+    return out.join('\n');
+}
+
+function hex(value: bigint): string {
+    return `0x${value.toString(16)}`;
+}
@@ -0,0 +1,472 @@
+// C# expressions from Watch, hovers and the Debug Console, rewritten as gdb
+// expressions over the NativeAOT DWARF layout: `list.Count` reads
+// `list->_size`, `arr[3]` reads `arr->m_Data[3]`, `(Foo)obj` casts to the
+// DWARF struct for Foo. Types come from gdb, one expression at a time, so
+// the translator only needs a callback that asks gdb for a type.
+import { isPointerType, managedKind, ManagedKind } from './managedFormatter';
+
+/**
+ * Shown as-is in Watch and the Debug Console. `passThrough` errors mean the
+ * text is no C# the translator handles; gdb may still read it as its own.
+ */
+export class ExpressionError extends Error {
+    constructor(message: string, readonly passThrough = false) {
+        super(message);
+        this.name = 'ExpressionError';
+    }
+}
+
+/** gdb's type for a gdb expression; rejects when gdb cannot evaluate it. */
+export type TypeOf = (expression: string) => Promise<string>;
+
+export type CSharpNode =
+    | { kind: 'name'; name: string }
+    | { kind: 'literal'; text: string }
+    | { kind: 'member'; target: CSharpNode; member: string }
+    | { kind: 'index'; target: CSharpNode; index: CSharpNode }
+    | { kind: 'cast'; type: string; operand: CSharpNode }
+    | { kind: 'unary'; op: string; operand: CSharpNode }
+    | { kind: 'binary'; op: string; left: CSharpNode; right: CSharpNode };
+
+interface Token {
+    kind: 'identifier' | 'number' | 'char' | 'string' | 'punct' | 'end';
+    text: string;
+    position: number;
+}
+
+// Longest first, so `<=` is not read as `<`.
+const PUNCTUATION = ['<<', '>>', '<=', '>=', '==', '!=', '&&', '||', '.', '[', ']', '(', ')', ',', '+', '-', '*', '/', '%', '!', '~', '<', '>', '&', '|', '^', '?'];
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const c = text[i];
+        if (/\s/.test(c)) {
+            i++;
+            continue;
+        }
+        const rest = text.slice(i);
+        const m = /^@?[A-Za-z_]\w*/.exec(rest)
+            ?? /^(0[xX][0-9a-fA-F_]+|\d[\d_]*(\.\d+)?([eE][+-]?\d+)?)([uU][lL]?|[lL][uU]?|[fFdDmM])?/.exec(rest)
+            ?? /^'(\\.|[^'\\])'/.exec(rest)
+            ?? /^"(\\.|[^"\\])*"/.exec(rest);
+        if (m) {
+            const kind = /^[@A-Za-z_]/.test(c) ? 'identifier' : /\d/.test(c) ? 'number' : c === '\'' ? 'char' : 'string';
+            tokens.push({ kind, text: m[0], position: i });
+            i += m[0].length;
+            continue;
+        }
+        const punct = PUNCTUATION.find(p => rest.startsWith(p));
+        if (!punct) {
+            throw new ExpressionError(`Unexpected character '${c}' at position ${i + 1}`, true);
+        }
+        tokens.push({ kind: 'punct', text: punct, position: i });
+        i += punct.length;
+    }
+    tokens.push({ kind: 'end', text: '', position: text.length });
+    return tokens;
+}
+
+// Binary operators by precedence, loosest first.
+const BINARY_LEVELS = [['||'], ['&&'], ['|'], ['^'], ['&'], ['==', '!='], ['<', '>', '<=', '>='], ['<<', '>>'], ['+', '-'], ['*', '/', '%']];
+
+// Tokens a cast's operand can start with, per the C# grammar (not + or -).
+function startsCastOperand(token: Token): boolean {
+    return token.kind !== 'end' && token.kind !== 'punct' || token.text === '(' || token.text === '!' || token.text === '~';
+}
+
+class Parser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) { }
+
+    parse(): CSharpNode {
+        const node = this.binary(0);
+        if (this.peek().kind !== 'end') {
+            this.unexpected();
+        }
+        return node;
+    }
+
+    private binary(level: number): CSharpNode {
+        if (level === BINARY_LEVELS.length) {
+            return this.unary();
+        }
+        let left = this.binary(level + 1);
+        while (this.peek().kind === 'punct' && BINARY_LEVELS[level].includes(this.peek().text)) {
+            const op = this.next().text;
+            left = { kind: 'binary', op, left, right: this.binary(level + 1) };
+        }
+        return left;
+    }
+
+    private unary(): CSharpNode {
+        const token = this.peek();
+        if (token.kind === 'punct' && ['-', '+', '!', '~'].includes(token.text)) {
+            this.next();
+            return { kind: 'unary', op: token.text, operand: this.unary() };
+        }
+        if (token.text === '(' && token.kind === 'punct') {
+            const cast = this.tryCast();
+            if (cast) {
+                return cast;
+            }
+        }
+        return this.postfix(this.primary());
+    }
+
+    // `(Type)operand`; anything else in parentheses is a parenthesized expression.
+    private tryCast(): CSharpNode | undefined {
+        const start = this.index;
+        this.next();
+        const type = this.typeName();
+        if (type && this.peek().text === ')') {
+            this.next();
+            if (startsCastOperand(this.peek())) {
+                return { kind: 'cast', type, operand: this.unary() };
+            }
+        }
+        this.index = start;
+        return undefined;
+    }
+
+    // Dotted name, generic arguments, `[]`; undefined when the tokens are no type.
+    private typeName(): string | undefined {
+        if (this.peek().kind !== 'identifier') {
+            return undefined;
+        }
+        let name = this.next().text;
+        while (this.peek().text === '.' && this.tokens[this.index + 1]?.kind === 'identifier') {
+            this.next();
+            name += `.${this.next().text}`;
+        }
+        if (this.peek().text === '<') {
+            this.next();
+            const args: string[] = [];
+            for (;;) {
+                const arg = this.typeName();
+                if (!arg) {
+                    return undefined;
+                }
+                args.push(arg);
+                if (this.peek().text !== ',') {
+                    break;
+                }
+                this.next();
+            }
+            if (this.peek().text !== '>') {
+                return undefined;
+            }
+            this.next();
+            name += `<${args.join(',')}>`;
+        }
+        while (this.peek().text === '[' && this.tokens[this.index + 1]?.text === ']') {
+            this.next();
+            this.next();
+            name += '[]';
+        }
+        return name;
+    }
+
+    private primary(): CSharpNode {
+        const token = this.next();
+        switch (token.kind) {
+            case 'identifier':
+                return { kind: 'name', name: token.text.replace(/^@/, '') };
+            case 'number': {
+                // gdb reads u/l suffixes; the floating-point ones it does not.
+                const text = token.text.replace(/_/g, '');
+                return { kind: 'literal', text: /^0[xX]/.test(text) ? text : text.replace(/[fFdDmM]$/, '') };
+            }
+            case 'char':
+                return { kind: 'literal', text: token.text };
+            case 'string':
+                throw new ExpressionError('String literals are not supported in debugger expressions', true);
+        }
+        if (token.text === '(') {
+            const inner = this.binary(0);
+            this.expect(')');
+            return inner;
+        }
+        this.index--;
+        return this.unexpected();
+    }
+
+    private postfix(node: CSharpNode): CSharpNode {
+        for (;;) {
+            const token = this.peek();
+            if (token.text === '.' && token.kind === 'punct') {
+                this.next();
+                const member = this.next();
+                if (member.kind !== 'identifier') {
+                    throw new ExpressionError(`Expected a member name after '.' at position ${member.position + 1}`, true);
+                }
+                node = { kind: 'member', target: node, member: member.text.replace(/^@/, '') };
+            } else if (token.text === '[' && token.kind === 'punct') {
+                this.next();
+                node = { kind: 'index', target: node, index: this.binary(0) };
+                this.expect(']');
+            } else if (token.text === '(' && token.kind === 'punct') {
+                const method = node.kind === 'member' ? node.member : node.kind === 'name' ? node.name : 'expression';
+                throw new ExpressionError(`Method calls are not supported in debugger expressions ('${method}')`, true);
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private expect(text: string): void {
+        if (this.peek().text !== text) {
+            this.unexpected(text);
+        }
+        this.next();
+    }
+
+    private unexpected(expected?: string): never {
+        const token = this.peek();
+        const found = token.kind === 'end' ? 'end of expression' : `'${token.text}' at position ${token.position + 1}`;
+        throw new ExpressionError(expected ? `Expected '${expected}', found ${found}` : `Unexpected ${found}`, true);
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+}
+
+export function parseCSharpExpression(text: string): CSharpNode {
+    return new Parser(tokenize(text)).parse();
+}
+
+// C# keywords for the primitive types, as the DWARF spells them.
+const PRIMITIVE_TYPES: { [keyword: string]: string } = {
+    bool: 'bool',
+    byte: 'unsigned char',
+    sbyte: 'signed char',
+    char: 'unsigned short',
+    short: 'short',
+    ushort: 'unsigned short',
+    int: 'int',
+    uint: 'unsigned int',
+    long: 'long long',
+    ulong: 'unsigned long long',
+    nint: 'long long',
+    nuint: 'unsigned long long',
+    float: 'float',
+    double: 'double'
+};
+
+// Properties the BCL backs with a field: `access` is `(target)->` or `(target).`.
+const PROPERTIES: { [kind in ManagedKind]?: { [property: string]: (access: string) => string } } = {
+    string: { Length: a => `${a}_stringLength` },
+    array: { Length: a => `${a}m_NumComponents`, LongLength: a => `${a}m_NumComponents` },
+    list: { Count: a => `${a}_size`, Capacity: a => `${a}_items->m_NumComponents` },
+    stack: { Count: a => `${a}_size` },
+    queue: { Count: a => `${a}_size` },
+    dictionary: { Count: a => `(${a}_count - ${a}_freeCount)` },
+    span: { Length: a => `${a}_length`, IsEmpty: a => `(${a}_length == 0)` },
+    nullable: { HasValue: a => `${a}hasValue`, Value: a => `${a}value` },
+    stringBuilder: { Capacity: a => `${a}m_ChunkChars->m_NumComponents` }
+};
+
+// Both targets are 64-bit; a boxed value follows the MethodTable pointer.
+const BOXED_VALUE_OFFSET = 8;
+
+interface Value {
+    expression: string;
+    /** gdb's type, fetched when a member access or index needs it. */
+    type?: string;
+}
+
+export class CSharpTranslator {
+    // gdb expression → its type, or undefined when gdb could not evaluate it.
+    private readonly types = new Map<string, string | undefined>();
+
+    constructor(private readonly typeOf: TypeOf) { }
+
+    /** The gdb expression for C# `text`; throws ExpressionError. */
+    async translate(text: string): Promise<string> {
+        return (await this.value(parseCSharpExpression(text))).expression;
+    }
+
+    private async value(node: CSharpNode): Promise<Value> {
+        switch (node.kind) {
+            case 'name':
+                return this.name(node.name);
+            case 'literal':
+                return { expression: node.text };
+            case 'member':
+                return this.member(node.target, node.member);
+            case 'index':
+                return this.index(await this.value(node.target), await this.value(node.index));
+            case 'cast':
+                return this.cast(node.type, await this.value(node.operand));
+            case 'unary':
+                return { expression: `${node.op}(${(await this.value(node.operand)).expression})` };
+            case 'binary': {
+                const left = await this.value(node.left);
+                const right = await this.value(node.right);
+                return { expression: `(${left.expression}) ${node.op} (${right.expression})` };
+            }
+        }
+    }
+
+    private async name(name: string): Promise<Value> {
+        switch (name) {
+            case 'null':
+                return { expression: '0' };
+            case 'true':
+            case 'false':
+                return { expression: name };
+        }
+        const type = await this.tryType(name);
+        if (type === undefined) {
+            throw new ExpressionError(`The name '${name}' does not exist in the current context`);
+        }
+        return { expression: name, type };
+    }
+
+    private async member(target: CSharpNode, member: string): Promise<Value> {
+        // `Namespace.Type.Field` when the first name is no local: a static.
+        const path = dottedPath(target);
+        if (path && await this.tryType(path[0]) === undefined) {
+            return this.staticMember([...path, member]);
+        }
+        return this.memberOf(await this.value(target), member);
+    }
+
+    private async staticMember(path: string[]): Promise<Value> {
+        for (let i = path.length - 1; i > 0; i--) {
+            const type = await this.dwarfType(path.slice(0, i).join('.'));
+            if (!type) {
+                continue;
+            }
+            const expression = `${type.name}::${path[i]}`;
+            const valueType = await this.tryType(expression);
+            if (valueType === undefined) {
+                throw new ExpressionError(`'${path.slice(0, i).join('.')}' does not contain a definition for '${path[i]}'`);
+            }
+            let value: Value = { expression, type: valueType };
+            for (const member of path.slice(i + 1)) {
+                value = await this.memberOf(value, member);
+            }
+            return value;
+        }
+        throw new ExpressionError(`The name '${path[0]}' does not exist in the current context`);
+    }
+
+    private async memberOf(target: Value, member: string): Promise<Value> {
+        const type = await this.typeOfValue(target);
+        const access = isPointerType(type) ? `(${target.expression})->` : `(${target.expression}).`;
+        const kind = managedKind(type);
+        const property = kind && PROPERTIES[kind]?.[member];
+        if (property) {
+            return { expression: property(access) };
+        }
+        // A property's backing field, by the usual naming conventions.
+        const camel = member[0].toLowerCase() + member.slice(1);
+        for (const field of new Set([member, `_${camel}`, `m_${camel}`, `m_${member}`, `_${member}`])) {
+            const fieldType = await this.tryType(`${access}${field}`);
+            if (fieldType !== undefined) {
+                return { expression: `${access}${field}`, type: fieldType };
+            }
+        }
+        throw new ExpressionError(`'${displayType(type)}' does not contain a definition for '${member}'`);
+    }
+
+    private async index(target: Value, index: Value): Promise<Value> {
+        const type = await this.typeOfValue(target);
+        const access = isPointerType(type) ? `(${target.expression})->` : `(${target.expression}).`;
+        const i = index.expression;
+        switch (managedKind(type)) {
+            case 'array':
+                return { expression: `${access}m_Data[${i}]` };
+            case 'list':
+                return { expression: `${access}_items->m_Data[${i}]` };
+            case 'string':
+                return { expression: `(&${access}_firstChar)[${i}]` };
+            case 'span': {
+                // ByReference<T> wraps the pointer on older runtimes.
+                const reference = isPointerType(await this.tryType(`${access}_reference`) ?? '*')
+                    ? `${access}_reference`
+                    : `${access}_reference._value`;
+                return { expression: `${reference}[${i}]` };
+            }
+            case undefined:
+                if (isPointerType(type) || /\[\d*\]$/.test(type.trim())) {
+                    return { expression: `(${target.expression})[${i}]` };
+                }
+        }
+        throw new ExpressionError(`Cannot apply indexing with [] to an expression of type '${displayType(type)}'`);
+    }
+
+    private async cast(typeName: string, operand: Value): Promise<Value> {
+        const primitive = PRIMITIVE_TYPES[typeName];
+        if (primitive) {
+            return { expression: `((${primitive})(${operand.expression}))`, type: primitive };
+        }
+        const type = await this.dwarfType(typeName);
+        if (!type) {
+            throw new ExpressionError(`The type or namespace name '${typeName}' could not be found`);
+        }
+        if (type.hasHeader) {
+            return { expression: `((${type.name} *)(${operand.expression}))`, type: `${type.name} *` };
+        }
+        // A value type out of an object reference is an unbox.
+        if (isPointerType(await this.typeOfValue(operand))) {
+            return { expression: `(*(${type.name} *)((char *)(${operand.expression}) + ${BOXED_VALUE_OFFSET}))`, type: type.name };
+        }
+        return { expression: `((${type.name})(${operand.expression}))`, type: type.name };
+    }
+
+    // ILC's DWARF may name a type by its namespace scope or just by its
+    // short name, so try each.
+    private async dwarfType(typeName: string): Promise<{ name: string; hasHeader: boolean } | undefined> {
+        const generic = typeName.indexOf('<');
+        const short = typeName.slice(typeName.lastIndexOf('.', generic >= 0 ? generic : typeName.length) + 1);
+        for (const candidate of new Set([typeName.replace(/\./g, '::'), short])) {
+            if (await this.tryType(`sizeof(${candidate})`) !== undefined) {
+                return { name: candidate, hasHeader: await this.tryType(`((${candidate} *)0)->m_pEEType`) !== undefined };
+            }
+        }
+        return undefined;
+    }
+
+    private async typeOfValue(value: Value): Promise<string> {
+        if (value.type === undefined) {
+            value.type = await this.tryType(value.expression);
+            if (value.type === undefined) {
+                throw new ExpressionError(`Cannot evaluate '${value.expression}'`);
+            }
+        }
+        return value.type;
+    }
+
+    private async tryType(expression: string): Promise<string | undefined> {
+        if (!this.types.has(expression)) {
+            this.types.set(expression, await this.typeOf(expression).catch(() => undefined));
+        }
+        return this.types.get(expression);
+    }
+}
+
+// `A.B.C` as names, or undefined when the node is anything else.
+function dottedPath(node: CSharpNode): string[] | undefined {
+    if (node.kind === 'name') {
+        return [node.name];
+    }
+    if (node.kind === 'member') {
+        const parent = dottedPath(node.target);
+        return parent && [...parent, node.member];
+    }
+    return undefined;
+}
+
+// `class MyKernel::Thing *` → `MyKernel.Thing`.
+function displayType(type: string): string {
+    return type.trim().replace(/^(class|struct)\s+/, '').replace(/(\s*[*&])+$/, '').replace(/::/g, '.');
+}
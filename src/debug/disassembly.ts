@@ -0,0 +1,159 @@
+// Serves DAP `disassemble` requests from gdb's -data-disassemble. The request
+// asks for `instructionCount` instructions starting `instructionOffset`
+// instructions away from an address, and that offset may be negative. On
+// arm64 every instruction is 4 bytes, so the window is plain arithmetic. On
+// x64 instructions are 1-15 bytes and can't be decoded backwards, so the
+// code before the address is decoded from progressively later starting
+// points until one lines up exactly on the address.
+import * as path from 'path';
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { DisassembledInstruction } from './codedebug/backend/backend';
+import { demangleNativeAotSymbol } from '../utils/nativeAotNames';
+
+/** Disassembles [start, end); resolves to [] for unreadable memory. */
+export type DisassembleRange = (start: bigint, end: bigint) => Promise<DisassembledInstruction[]>;
+
+const MAX_X64_INSTRUCTION = 15;
+const ARM64_INSTRUCTION = 4;
+// Starting points tried when decoding backwards on x64 before settling for
+// a window that doesn't line up (x86 decoding resynchronizes quickly).
+const RESYNC_ATTEMPTS = 8;
+
+export async function disassembleWindow(
+    disassemble: DisassembleRange,
+    arch: string | undefined,
+    base: bigint,
+    instructionOffset: number,
+    instructionCount: number
+): Promise<DebugProtocol.DisassembledInstruction[]> {
+    if (instructionCount <= 0) {
+        return [];
+    }
+    const decoded = arch === 'arm64'
+        ? await fixedWidthWindow(disassemble, base, instructionOffset, instructionCount)
+        : await variableWidthWindow(disassemble, base, instructionOffset, instructionCount);
+    return decoded.map(toDapInstruction);
+}
+
+async function fixedWidthWindow(
+    disassemble: DisassembleRange,
+    base: bigint,
+    instructionOffset: number,
+    instructionCount: number
+): Promise<(DisassembledInstruction | bigint)[]> {
+    const width = BigInt(ARM64_INSTRUCTION);
+    const start = base + BigInt(instructionOffset) * width;
+    const end = start + BigInt(instructionCount) * width;
+    const byAddress = new Map<bigint, DisassembledInstruction>();
+    if (end > 0n) {
+        for (const insn of await disassemble(start < 0n ? 0n : start, end)) {
+            byAddress.set(BigInt(insn.address), insn);
+        }
+    }
+    const out: (DisassembledInstruction | bigint)[] = [];
+    for (let i = 0; i < instructionCount; i++) {
+        const address = start + BigInt(i) * width;
+        out.push(byAddress.get(address) ?? address);
+    }
+    return out;
+}
+
+async function variableWidthWindow(
+    disassemble: DisassembleRange,
+    base: bigint,
+    instructionOffset: number,
+    instructionCount: number
+): Promise<(DisassembledInstruction | bigint)[]> {
+    const before = Math.max(0, -instructionOffset);
+    const after = Math.max(0, instructionOffset + instructionCount);
+
+    // Index 0 of the combined list is the instruction at `base`.
+    let backward: DisassembledInstruction[] = [];
+    if (before > 0) {
+        backward = await decodeBackward(disassemble, base, before);
+    }
+    let forward: DisassembledInstruction[] = [];
+    if (after > 0) {
+        forward = (await disassemble(base, base + BigInt(after * MAX_X64_INSTRUCTION))).slice(0, after);
+    }
+
+    const out: (DisassembledInstruction | bigint)[] = [];
+    for (let index = instructionOffset; index < instructionOffset + instructionCount; index++) {
+        if (index < 0) {
+            const insn = backward[backward.length + index];
+            // Unreadable memory before the window: unique, descending addresses.
+            out.push(insn ?? firstAddress(backward, base) - BigInt(-index - backward.length));
+        } else {
+            const insn = forward[index];
+            out.push(insn ?? lastEnd(forward, base) + BigInt(index - forward.length));
+        }
+    }
+    return out;
+}
+
+// The `count` instructions that end exactly at `base`, or as close to that
+// as the attempts get.
+async function decodeBackward(
+    disassemble: DisassembleRange,
+    base: bigint,
+    count: number
+): Promise<DisassembledInstruction[]> {
+    let best: DisassembledInstruction[] = [];
+    const span = BigInt(count * MAX_X64_INSTRUCTION);
+    for (let attempt = 0; attempt < RESYNC_ATTEMPTS; attempt++) {
+        let start = base - span + BigInt(attempt);
+        if (start < 0n) {
+            start = 0n;
+        }
+        // End one byte past base so an instruction starting at base proves
+        // the decoding is in step with the real instruction stream.
+        const insns = await disassemble(start, base + 1n);
+        const aligned = insns.length > 0 && BigInt(insns[insns.length - 1].address) === base;
+        const preceding = aligned ? insns.slice(0, -1) : insns.filter(i => BigInt(i.address) < base);
+        if (aligned) {
+            return preceding.slice(-count);
+        }
+        if (preceding.length > best.length) {
+            best = preceding.slice(-count);
+        }
+        if (start === 0n) {
+            break;
+        }
+    }
+    return best;
+}
+
+function firstAddress(insns: DisassembledInstruction[], fallback: bigint): bigint {
+    return insns.length > 0 ? BigInt(insns[0].address) : fallback;
+}
+
+function lastEnd(insns: DisassembledInstruction[], fallback: bigint): bigint {
+    if (insns.length === 0) {
+        return fallback;
+    }
+    const last = insns[insns.length - 1];
+    return BigInt(last.address) + BigInt(Math.max(1, last.opcodes.split(/\s+/).filter(b => b).length));
+}
+
+function toDapInstruction(insn: DisassembledInstruction | bigint): DebugProtocol.DisassembledInstruction {
+    if (typeof insn === 'bigint') {
+        // DAP wants exactly instructionCount entries; unreadable slots are
+        // shown as such rather than shortening the window.
+        return { address: `0x${insn.toString(16)}`, instruction: '??' };
+    }
+    const out: DebugProtocol.DisassembledInstruction = {
+        address: insn.address,
+        instructionBytes: insn.opcodes,
+        instruction: insn.instruction
+    };
+    if (insn.functionName) {
+        const name = demangleNativeAotSymbol(insn.functionName).display;
+        out.symbol = insn.offset ? `${name}+${insn.offset}` : name;
+    }
+    const file = insn.fullname || insn.file;
+    if (file && insn.line !== undefined) {
+        out.location = { name: path.basename(file), path: file };
+        out.line = insn.line;
+    }
+    return out;
+}
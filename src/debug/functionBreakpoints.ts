@@ -0,0 +1,161 @@
+// Function breakpoints by C# name. ILC mangles `MyKernel.Kernel.Run` into
+// `MyKernel_MyKernel_Kernel__Run` (overloads get `_0`, `_1`, …), and that
+// symbol is what gdb can break on; these helpers find the symbols a C# name
+// means and narrow overloads by the parameter types gdb reads from DWARF.
+import { SymbolIndex } from '../utils/symbolIndex';
+import { demangleNativeAotSymbol, managedTypeName } from '../utils/nativeAotNames';
+
+export interface FunctionName {
+    /** Dotted name without parameters, e.g. `Kernel.Run`. */
+    name: string;
+    /** Parameter types when the name has a parameter list, e.g. `Run(int, string)`. */
+    parameters?: string[];
+}
+
+export interface ManagedFunction {
+    symbol: string;
+    /** Declaring type, dotted, e.g. `MyKernel.Kernel`. */
+    type: string;
+    /** `MyKernel.Kernel.Run`. */
+    display: string;
+}
+
+const FUNCTION_NAME = /^([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)\s*(?:\((.*)\))?$/;
+
+/** `Namespace.Type.Method` or `Method(int, string)`; undefined for anything else (`file.c:12`, `*0x1000`). */
+export function parseFunctionName(text: string): FunctionName | undefined {
+    const m = FUNCTION_NAME.exec(text.trim());
+    if (!m) {
+        return undefined;
+    }
+    return { name: m[1], parameters: m[2] === undefined ? undefined : splitTopLevel(m[2]) };
+}
+
+/**
+ * Managed methods named `name`: a method name alone matches it in every
+ * type, and a qualified one matches types whose full name ends with the
+ * qualifier. Every overload is returned.
+ */
+export function findManagedFunctions(symbols: SymbolIndex, name: string): ManagedFunction[] {
+    const lastDot = name.lastIndexOf('.');
+    const member = name.slice(lastDot + 1);
+    // The demangler cannot tell `_` in a type name from a separator.
+    const qualifier = lastDot > 0 ? name.slice(0, lastDot).replace(/_/g, '.') : undefined;
+    const found: ManagedFunction[] = [];
+    for (const symbol of symbols.findNames(n => n.includes(`__${member}`))) {
+        const demangled = demangleNativeAotSymbol(symbol);
+        const type = managedTypeName(demangled);
+        if (demangled.kind !== 'method' || !type || !demangled.member) {
+            continue;
+        }
+        if (demangled.member !== member && demangled.member.replace(/_\d+$/, '') !== member) {
+            continue;
+        }
+        if (qualifier && type !== qualifier && !type.endsWith(`.${qualifier}`)) {
+            continue;
+        }
+        found.push({ symbol, type, display: `${type}.${member}` });
+    }
+    return found.sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+/**
+ * Whether gdb's type for `fn`, e.g. `void (MyKernel::Kernel *, int)`,
+ * takes `parameters` (C# spellings). Instance methods take `this` first.
+ */
+export function matchesParameters(fn: ManagedFunction, signature: string, parameters: string[]): boolean {
+    let actual = signatureParameters(signature);
+    if (!actual) {
+        return false;
+    }
+    if (actual.length === parameters.length + 1 && typeKey(actual[0]) === typeKey(fn.type)) {
+        actual = actual.slice(1);
+    }
+    return actual.length === parameters.length && actual.every((type, i) => typeKey(type) === typeKey(parameters[i]));
+}
+
+// The parameter list of a function type: the last top-level parentheses.
+function signatureParameters(signature: string): string[] | undefined {
+    const close = signature.lastIndexOf(')');
+    let depth = 0;
+    for (let i = close; i >= 0; i--) {
+        if (signature[i] === ')') {
+            depth++;
+        } else if (signature[i] === '(' && --depth === 0) {
+            const inner = signature.slice(i + 1, close).trim();
+            return inner === 'void' ? [] : splitTopLevel(inner);
+        }
+    }
+    return undefined;
+}
+
+// C# keywords and the C spellings ILC's DWARF uses for primitives, as BCL
+// names. `char` and `ushort` share a DWARF type, so they compare equal.
+const TYPE_ALIASES: { [name: string]: string } = {
+    bool: 'Boolean',
+    byte: 'Byte',
+    sbyte: 'SByte',
+    char: 'UInt16',
+    Char: 'UInt16',
+    short: 'Int16',
+    ushort: 'UInt16',
+    int: 'Int32',
+    uint: 'UInt32',
+    long: 'Int64',
+    ulong: 'UInt64',
+    nint: 'IntPtr',
+    nuint: 'UIntPtr',
+    float: 'Single',
+    double: 'Double',
+    decimal: 'Decimal',
+    string: 'String',
+    object: 'Object',
+    'unsigned char': 'Byte',
+    'signed char': 'SByte',
+    'char16_t': 'UInt16',
+    'unsigned short': 'UInt16',
+    'unsigned int': 'UInt32',
+    'long long': 'Int64',
+    'unsigned long': 'UInt64',
+    'unsigned long long': 'UInt64'
+};
+
+// A spelling-independent key: `int`, `Int32` and `System.Int32` agree, as do
+// `int[]` and `__Array<Int32> *`, and `class MyKernel::Thing *` and `Thing`.
+function typeKey(type: string): string {
+    const t = type.trim()
+        .replace(/^(const\s+)?(class|struct)\s+/, '')
+        .replace(/(\s*[*&]|\s+const)+$/, '')
+        .trim();
+    if (t.endsWith('[]')) {
+        return `__Array<${typeKey(t.slice(0, -2))}>`;
+    }
+    const generic = t.indexOf('<');
+    if (generic > 0 && t.endsWith('>')) {
+        return `${typeKey(t.slice(0, generic))}<${splitTopLevel(t.slice(generic + 1, -1)).map(typeKey).join(',')}>`;
+    }
+    return TYPE_ALIASES[t] ?? t.split(/::|\./).pop()!;
+}
+
+// Comma-separated items, ignoring commas inside <> and ().
+function splitTopLevel(text: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c === '<' || c === '(') {
+            depth++;
+        } else if (c === '>' || c === ')') {
+            depth--;
+        } else if (c === ',' && depth === 0) {
+            items.push(text.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+    const last = text.slice(start).trim();
+    if (last || items.length > 0) {
+        items.push(last);
+    }
+    return items;
+}
@@ -1,8 +1,11 @@
+import { SymbolIndex } from '../utils/symbolIndex';
+
 /**
- * Module-level handle to the active session's "live kernel memory reader".
- * Backed by QMP today — reads guest virtual memory without pausing the
- * inferior. Views (Kernel Threads, etc.) call getLiveReader() to fetch
- * the active reader; absence means the session has no live channel.
+ * Registry of each debug session's "live kernel memory reader", keyed by
+ * debug session ID. Backed by QMP today — reads guest virtual memory
+ * without pausing the inferior. Views (Kernel Threads, etc.) call
+ * getLiveReader() with the session they show; absence means that session
+ * has no live channel.
  */
 export interface LiveReader {
     readVirtual(vaddr: bigint, length: number): Promise<Buffer>;
@@ -21,18 +24,23 @@ export interface LiveReader {
      * Same idea for DebugLiveMemorySnapshot (page allocator / RAT).
      */
     memorySnapshotStaticsAddr?: bigint;
+    /**
+     * Symbol table of the kernel being debugged, for address → symbol
+     * lookups (e.g. naming a thread's entry point).
+     */
+    symbols?: SymbolIndex;
 }
 
-let active: LiveReader | undefined;
+const readers = new Map<string, LiveReader>();
 
-export function registerLiveReader(reader: LiveReader): void {
-    active = reader;
+export function registerLiveReader(sessionId: string, reader: LiveReader): void {
+    readers.set(sessionId, reader);
 }
 
-export function unregisterLiveReader(): void {
-    active = undefined;
+export function unregisterLiveReader(sessionId: string): void {
+    readers.delete(sessionId);
 }
 
-export function getLiveReader(): LiveReader | undefined {
-    return active;
+export function getLiveReader(sessionId: string | undefined): LiveReader | undefined {
+    return sessionId !== undefined ? readers.get(sessionId) : undefined;
 }
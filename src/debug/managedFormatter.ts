@@ -0,0 +1,328 @@
+// Managed-value formatting for sessions whose gdb has no Python, mirroring
+// resources/gdb/cosmos_prettyprint.py. The Python printers read values
+// inside gdb; here every field is a gdb expression evaluated over MI, so
+// the formatter only needs an evaluator and a memory reader.
+import { TypeMap } from '../utils/typeMap';
+
+/** Evaluates a gdb expression in the frame being inspected, returning gdb's value text. */
+export type Evaluate = (expression: string) => Promise<string>;
+
+/** Reads target memory; may return fewer bytes than asked for. */
+export type ReadMemory = (address: bigint, length: number) => Promise<Buffer>;
+
+export type ManagedKind =
+    | 'string' | 'array' | 'object'
+    | 'list' | 'stack' | 'queue' | 'dictionary' | 'span' | 'nullable' | 'stringBuilder';
+
+export interface ManagedChild {
+    name: string;
+    /** gdb expression for the element, evaluated for its value and expanded on demand. */
+    expression: string;
+}
+
+export interface ManagedView {
+    /** Shown as the variable's value, e.g. `Count = 3`. */
+    value: string;
+    /** Elements shown when expanded, instead of the raw fields. */
+    children?: ManagedChild[];
+    /** Expression to expand in place of the variable (a Nullable's value, an object as its runtime type). */
+    expand?: string;
+}
+
+// Same limits as the Python printers.
+export const MAX_CHILDREN = 1000;
+const MAX_STRING_CHARS = 4096;
+
+const GENERIC_KINDS: { [name: string]: ManagedKind } = {
+    List: 'list',
+    Stack: 'stack',
+    Queue: 'queue',
+    Dictionary: 'dictionary',
+    Span: 'span',
+    ReadOnlySpan: 'span',
+    Nullable: 'nullable'
+};
+
+/** `System.Collections.Generic.List<Int32>` or ``List`1<Int32>`` → `List`. */
+export function genericName(typeName: string): string {
+    const base = typeName.split('<', 1)[0];
+    const last = base.split('::').pop()!.split('.').pop()!;
+    return last.replace(/`\d+$/, '');
+}
+
+/** gdb's type string without `class`/`struct` and pointer or reference marks. */
+function bareTypeName(type: string): string {
+    return type.trim().replace(/^(class|struct)\s+/, '').replace(/(\s*[*&])+$/, '');
+}
+
+/** The BCL type a gdb type string names, if the formatter knows it. */
+export function managedKind(type: string): ManagedKind | undefined {
+    const name = bareTypeName(type);
+    if (name === 'String') {
+        return 'string';
+    }
+    if (name === 'Object') {
+        return 'object';
+    }
+    if (name.startsWith('__Array<')) {
+        return 'array';
+    }
+    if (name.includes('<')) {
+        return GENERIC_KINDS[genericName(name)];
+    }
+    return genericName(name) === 'StringBuilder' ? 'stringBuilder' : undefined;
+}
+
+export function isPointerType(type: string): boolean {
+    return /\*\s*$/.test(type);
+}
+
+/**
+ * gdb's text for the primitive, enum and Nullable structs, reduced to
+ * what the Python printers show: `{m_value = 5}` → `5`,
+ * `{value__ = 2}` → `2`, `{hasValue = false, value = 0}` → `null`.
+ */
+export function simplifyValueText(text: string): string {
+    const wrapped = /^\{(?:m_value|value__) = ([^{},]*)\}$/.exec(text);
+    if (wrapped) {
+        return wrapped[1];
+    }
+    const nullable = /^\{hasValue = (\w+), value = (.*)\}$/.exec(text);
+    if (nullable) {
+        return nullable[1] === 'false' || nullable[1] === '0' ? 'null' : simplifyValueText(nullable[2]);
+    }
+    return text;
+}
+
+/** A managed type's DWARF type, as gdb names it in a cast. */
+interface DwarfType {
+    name: string;
+    /** Reference types start with m_pEEType; boxed value types have it before their fields. */
+    hasHeader: boolean;
+}
+
+/**
+ * The session's type map, and the DWARF types found for its names so far
+ * (null when gdb has none). Outlives the per-request formatters.
+ */
+export class RuntimeTypes {
+    private methodTables = new Map<bigint, string>();
+    readonly dwarfTypes = new Map<string, DwarfType | null>();
+
+    load(map: TypeMap): void {
+        this.methodTables.clear();
+        this.dwarfTypes.clear();
+        for (const [address, name] of Object.entries(map.methodTables)) {
+            this.methodTables.set(BigInt(address), name);
+        }
+    }
+
+    typeName(methodTable: bigint): string | undefined {
+        return this.methodTables.get(methodTable);
+    }
+}
+
+// Both targets are 64-bit.
+const POINTER_SIZE = 8n;
+
+export class ManagedFormatter {
+    constructor(
+        private readonly evaluate: Evaluate,
+        private readonly readMemory: ReadMemory,
+        private readonly types: RuntimeTypes
+    ) { }
+
+    /**
+     * The value of `expression` (of gdb type `type`) the way the .NET
+     * debugger shows a `kind`: a summary, and the elements to expand into.
+     */
+    async view(kind: ManagedKind, expression: string, type: string): Promise<ManagedView> {
+        if (isPointerType(type) && await this.address(expression) === 0n) {
+            return { value: 'null' };
+        }
+        const obj = isPointerType(type) ? `(*(${expression}))` : `(${expression})`;
+        switch (kind) {
+            case 'string': {
+                const length = await this.number(`${obj}._stringLength`);
+                if (length <= 0) {
+                    return { value: '""' };
+                }
+                const data = await this.readMemory(await this.address(`&${obj}._firstChar`), Math.min(length, MAX_STRING_CHARS) * 2);
+                return { value: `${JSON.stringify(data.toString('utf16le'))}${length > MAX_STRING_CHARS ? '…' : ''}` };
+            }
+            case 'array': {
+                const length = await this.number(`${obj}.m_NumComponents`);
+                return {
+                    value: `Length = ${length}`,
+                    children: range(length).map(i => ({ name: `[${i}]`, expression: `${obj}.m_Data[${i}]` }))
+                };
+            }
+            case 'object':
+                return this.object(obj);
+            case 'list': {
+                const size = await this.number(`${obj}._size`);
+                return {
+                    value: `Count = ${size}`,
+                    children: range(size).map(i => ({ name: `[${i}]`, expression: `${obj}._items->m_Data[${i}]` }))
+                };
+            }
+            case 'stack': {
+                const size = await this.number(`${obj}._size`);
+                return {
+                    value: `Count = ${size}`,
+                    children: range(size).map(i => ({ name: `[${i}]`, expression: `${obj}._array->m_Data[${size - 1 - i}]` }))
+                };
+            }
+            case 'queue': {
+                const size = await this.number(`${obj}._size`);
+                const head = await this.number(`${obj}._head`);
+                const capacity = size > 0 ? await this.number(`${obj}._array->m_NumComponents`) : 1;
+                return {
+                    value: `Count = ${size}`,
+                    children: range(size).map(i => ({ name: `[${i}]`, expression: `${obj}._array->m_Data[${(head + i) % capacity}]` }))
+                };
+            }
+            case 'dictionary':
+                return this.dictionary(obj);
+            case 'span': {
+                const length = await this.number(`${obj}._length`);
+                // ByReference<T> wraps the pointer on older runtimes.
+                const reference = (await this.evaluate(`${obj}._reference`)).startsWith('{')
+                    ? `${obj}._reference._value`
+                    : `${obj}._reference`;
+                return {
+                    value: `Length = ${length}`,
+                    children: range(length).map(i => ({ name: `[${i}]`, expression: `${reference}[${i}]` }))
+                };
+            }
+            case 'nullable': {
+                const hasValue = await this.evaluate(`${obj}.hasValue`);
+                if (hasValue === 'false' || hasValue === '0') {
+                    return { value: 'null' };
+                }
+                const value = simplifyValueText(await this.evaluate(`${obj}.value`));
+                return value.startsWith('{') ? { value: '{...}', expand: `${obj}.value` } : { value };
+            }
+            case 'stringBuilder':
+                return { value: JSON.stringify(await this.stringBuilderText(obj)) };
+        }
+    }
+
+    // An Object reference shown as its runtime type: the MethodTable names
+    // the type, and the object is re-read as that type's DWARF struct.
+    private async object(obj: string): Promise<ManagedView> {
+        const methodTable = await this.address(`${obj}.m_pEEType`);
+        const name = this.types.typeName(methodTable);
+        if (!name) {
+            return { value: `Object { MethodTable = 0x${methodTable.toString(16).padStart(16, '0')} }` };
+        }
+        const dwarf = await this.dwarfType(name);
+        if (!dwarf) {
+            return { value: `{${name}}` };
+        }
+        // A boxed value type's fields follow the MethodTable pointer.
+        const address = await this.address(`&${obj}`) + (dwarf.hasHeader ? 0n : POINTER_SIZE);
+        const runtime = `(*(${dwarf.name} *)0x${address.toString(16)})`;
+        const kind = managedKind(dwarf.name);
+        if (kind && kind !== 'object') {
+            return this.view(kind, runtime, dwarf.name);
+        }
+        if (!dwarf.hasHeader) {
+            const value = simplifyValueText(await this.evaluate(runtime));
+            if (!value.startsWith('{')) {
+                return { value };
+            }
+        }
+        return { value: `{${name}}`, expand: runtime };
+    }
+
+    // ILC's DWARF may name a type by its namespace scope or just by its
+    // short name, so try each, like _lookup_managed_type.
+    private async dwarfType(name: string): Promise<DwarfType | undefined> {
+        const cached = this.types.dwarfTypes.get(name);
+        if (cached !== undefined) {
+            return cached ?? undefined;
+        }
+        const generic = name.indexOf('<');
+        const short = name.slice(name.lastIndexOf('.', generic >= 0 ? generic : name.length) + 1);
+        let found: DwarfType | null = null;
+        for (const candidate of [name.replace(/\./g, '::'), short]) {
+            if (await this.succeeds(`sizeof(${candidate})`)) {
+                found = { name: candidate, hasHeader: await this.succeeds(`&((${candidate} *)0)->m_pEEType`) };
+                break;
+            }
+        }
+        this.types.dwarfTypes.set(name, found);
+        return found ?? undefined;
+    }
+
+    private async succeeds(expression: string): Promise<boolean> {
+        try {
+            await this.evaluate(expression);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    // Used slots of _entries; a freed slot's `next` is below -1.
+    private async dictionary(obj: string): Promise<ManagedView> {
+        const count = await this.number(`${obj}._count`);
+        const free = await this.number(`${obj}._freeCount`);
+        const children: ManagedChild[] = [];
+        for (let i = 0; i < count && children.length < MAX_CHILDREN; i++) {
+            const entry = `${obj}._entries->m_Data[${i}]`;
+            if (await this.number(`${entry}.next`) < -1) {
+                continue;
+            }
+            const key = simplifyValueText(await this.evaluate(`${entry}.key`));
+            children.push({ name: `[${key}]`, expression: `${entry}.value` });
+        }
+        return { value: `Count = ${count - free}`, children };
+    }
+
+    // Chunks are linked newest first through m_ChunkPrevious.
+    private async stringBuilderText(obj: string): Promise<string> {
+        const chunks: string[] = [];
+        let chunk = obj;
+        let total = 0;
+        while (chunks.length < MAX_CHILDREN && total < MAX_STRING_CHARS) {
+            const length = await this.number(`${chunk}.m_ChunkLength`);
+            if (length > 0) {
+                const address = await this.address(`&${chunk}.m_ChunkChars->m_Data[0]`);
+                const data = await this.readMemory(address, Math.min(length, MAX_STRING_CHARS) * 2);
+                chunks.push(data.toString('utf16le'));
+                total += length;
+            }
+            if (await this.address(`${chunk}.m_ChunkPrevious`) === 0n) {
+                break;
+            }
+            chunk = `(*${chunk}.m_ChunkPrevious)`;
+        }
+        // Read newest first, so a long builder keeps its end.
+        const text = chunks.reverse().join('');
+        return text.length > MAX_STRING_CHARS ? `…${text.slice(-MAX_STRING_CHARS)}` : text;
+    }
+
+    private async number(expression: string): Promise<number> {
+        const text = await this.evaluate(expression);
+        const m = /^-?\d+/.exec(text);
+        if (!m) {
+            throw new Error(`${expression} is not a number: ${text}`);
+        }
+        return Number(m[0]);
+    }
+
+    private async address(expression: string): Promise<bigint> {
+        const text = await this.evaluate(`(unsigned long long)(${expression})`);
+        const m = /^\d+/.exec(text);
+        if (!m) {
+            throw new Error(`${expression} is not an address: ${text}`);
+        }
+        return BigInt(m[0]);
+    }
+}
+
+function range(count: number): number[] {
+    return Array.from({ length: Math.max(0, Math.min(count, MAX_CHILDREN)) }, (_, i) => i);
+}
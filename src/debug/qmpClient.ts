@@ -15,6 +15,7 @@ export class QmpClient {
     private readonly pending: { resolve: (v: any) => void; reject: (e: any) => void }[] = [];
     private ready = false;
     private connectPromise: Promise<void> | undefined;
+    private readonly eventListeners: ((event: string, data: any) => void)[] = [];
 
     constructor(private readonly host: string, private readonly port: number) { }
 
@@ -84,6 +85,35 @@ export class QmpClient {
         return parseMonitorHexDump(res.return, length);
     }
 
+    /** Asynchronous QMP events (SHUTDOWN, RESET, STOP, ...). */
+    onEvent(listener: (event: string, data: any) => void): void {
+        this.eventListeners.push(listener);
+    }
+
+    /**
+     * Resets the machine as if by its reset button; a stopped guest stays
+     * stopped. Debug sessions that freeze on reset run QEMU with -no-reboot,
+     * which would turn the reset into a shutdown, so resets are allowed just
+     * for this request.
+     */
+    async systemReset(freezeOnReset = true): Promise<void> {
+        if (!freezeOnReset) {
+            await this.send({ execute: 'system_reset' });
+            return;
+        }
+        await this.send({ execute: 'set-action', arguments: { reboot: 'reset' } });
+        try {
+            await this.send({ execute: 'system_reset' });
+        } finally {
+            await this.send({ execute: 'set-action', arguments: { reboot: 'shutdown' } });
+        }
+    }
+
+    /** Ends QEMU. The socket closes before any reply arrives. */
+    quit(): void {
+        this.send({ execute: 'quit' }).catch(() => undefined);
+    }
+
     private greetingResolvers: Array<(g: any) => void> = [];
     private receivedGreeting: any = undefined;
 
@@ -137,6 +167,9 @@ export class QmpClient {
                 continue;
             }
             if (msg.event) {
+                for (const listener of this.eventListeners) {
+                    listener(msg.event, msg.data);
+                }
                 continue;
             }
             const next = this.pending.shift();
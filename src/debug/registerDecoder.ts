@@ -0,0 +1,497 @@
+// Decodes the control and system registers QEMU's gdbstub exposes into the
+// groups behind the "System Registers" scope. gdb provides the raw values.
+// On x64 the segment descriptor caches and GDTR/IDTR aren't gdb registers,
+// so they come from the QEMU monitor's `info registers` dump instead.
+
+/** One bit or bit range of a register. */
+export interface DecodedField {
+    name: string;
+    value: string;
+    description: string;
+}
+
+export interface DecodedRegister {
+    name: string;
+    value: string;
+    description: string;
+    fields: DecodedField[];
+}
+
+export interface RegisterGroup {
+    name: string;
+    registers: DecodedRegister[];
+}
+
+interface FieldSpec {
+    name: string;
+    bit: number;
+    width?: number;
+    description: string;
+    decode?: (value: bigint) => string;
+}
+
+interface RegisterSpec {
+    name: string;
+    // gdb register names, tried in order and case-insensitively. QEMU names
+    // arm64 system registers after its cpreg table (SCTLR, not SCTLR_EL1).
+    sources: string[];
+    description: string;
+    fields?: FieldSpec[];
+    // Fields whose layout depends on the value itself (ESR's ISS).
+    extraFields?: (value: bigint) => DecodedField[];
+}
+
+const RFLAGS_FIELDS: FieldSpec[] = [
+    { name: 'CF', bit: 0, description: 'Carry' },
+    { name: 'PF', bit: 2, description: 'Parity' },
+    { name: 'AF', bit: 4, description: 'Auxiliary carry' },
+    { name: 'ZF', bit: 6, description: 'Zero' },
+    { name: 'SF', bit: 7, description: 'Sign' },
+    { name: 'TF', bit: 8, description: 'Trap (single step)' },
+    { name: 'IF', bit: 9, description: 'Interrupts enabled' },
+    { name: 'DF', bit: 10, description: 'Direction' },
+    { name: 'OF', bit: 11, description: 'Overflow' },
+    { name: 'IOPL', bit: 12, width: 2, description: 'I/O privilege level' },
+    { name: 'NT', bit: 14, description: 'Nested task' },
+    { name: 'RF', bit: 16, description: 'Resume' },
+    { name: 'VM', bit: 17, description: 'Virtual 8086 mode' },
+    { name: 'AC', bit: 18, description: 'Alignment check / SMAP access' },
+    { name: 'VIF', bit: 19, description: 'Virtual interrupt' },
+    { name: 'VIP', bit: 20, description: 'Virtual interrupt pending' },
+    { name: 'ID', bit: 21, description: 'CPUID available' }
+];
+
+const CR0_FIELDS: FieldSpec[] = [
+    { name: 'PE', bit: 0, description: 'Protected mode enable' },
+    { name: 'MP', bit: 1, description: 'Monitor coprocessor' },
+    { name: 'EM', bit: 2, description: 'x87 emulation' },
+    { name: 'TS', bit: 3, description: 'Task switched (lazy FPU)' },
+    { name: 'ET', bit: 4, description: 'Extension type' },
+    { name: 'NE', bit: 5, description: 'Native x87 error reporting' },
+    { name: 'WP', bit: 16, description: 'Write protect in ring 0' },
+    { name: 'AM', bit: 18, description: 'Alignment mask' },
+    { name: 'NW', bit: 29, description: 'Not write-through' },
+    { name: 'CD', bit: 30, description: 'Cache disable' },
+    { name: 'PG', bit: 31, description: 'Paging' }
+];
+
+const CR3_FIELDS: FieldSpec[] = [
+    { name: 'PCID', bit: 0, width: 12, description: 'Process-context identifier (when CR4.PCIDE), else PWT/PCD' },
+    { name: 'PML4', bit: 12, width: 40, description: 'Physical address of the top-level page table', decode: v => hex(v << 12n) }
+];
+
+const CR4_FIELDS: FieldSpec[] = [
+    { name: 'VME', bit: 0, description: 'Virtual-8086 mode extensions' },
+    { name: 'PVI', bit: 1, description: 'Protected-mode virtual interrupts' },
+    { name: 'TSD', bit: 2, description: 'RDTSC restricted to ring 0' },
+    { name: 'DE', bit: 3, description: 'Debugging extensions' },
+    { name: 'PSE', bit: 4, description: 'Page size extensions' },
+    { name: 'PAE', bit: 5, description: 'Physical address extension' },
+    { name: 'MCE', bit: 6, description: 'Machine check enable' },
+    { name: 'PGE', bit: 7, description: 'Global pages' },
+    { name: 'PCE', bit: 8, description: 'RDPMC in any ring' },
+    { name: 'OSFXSR', bit: 9, description: 'FXSAVE/FXRSTOR and SSE' },
+    { name: 'OSXMMEXCPT', bit: 10, description: 'Unmasked SIMD exceptions' },
+    { name: 'UMIP', bit: 11, description: 'User-mode instruction prevention' },
+    { name: 'LA57', bit: 12, description: '5-level paging' },
+    { name: 'VMXE', bit: 13, description: 'VMX enable' },
+    { name: 'SMXE', bit: 14, description: 'SMX enable' },
+    { name: 'FSGSBASE', bit: 16, description: 'RDFSBASE/WRFSBASE instructions' },
+    { name: 'PCIDE', bit: 17, description: 'Process-context identifiers' },
+    { name: 'OSXSAVE', bit: 18, description: 'XSAVE and extended states' },
+    { name: 'SMEP', bit: 20, description: 'Supervisor-mode execution prevention' },
+    { name: 'SMAP', bit: 21, description: 'Supervisor-mode access prevention' },
+    { name: 'PKE', bit: 22, description: 'Protection keys' },
+    { name: 'CET', bit: 23, description: 'Control-flow enforcement' }
+];
+
+const EFER_FIELDS: FieldSpec[] = [
+    { name: 'SCE', bit: 0, description: 'SYSCALL/SYSRET enable' },
+    { name: 'LME', bit: 8, description: 'Long mode enable' },
+    { name: 'LMA', bit: 10, description: 'Long mode active' },
+    { name: 'NXE', bit: 11, description: 'No-execute page protection' },
+    { name: 'SVME', bit: 12, description: 'SVM enable' },
+    { name: 'LMSLE', bit: 13, description: 'Long mode segment limit enable' },
+    { name: 'FFXSR', bit: 14, description: 'Fast FXSAVE/FXRSTOR' },
+    { name: 'TCE', bit: 15, description: 'Translation cache extension' }
+];
+
+const X64_GROUPS: { name: string; registers: RegisterSpec[] }[] = [
+    {
+        name: 'Flags',
+        registers: [{ name: 'RFLAGS', sources: ['eflags', 'rflags'], description: 'Status and control flags', fields: RFLAGS_FIELDS }]
+    },
+    {
+        name: 'Control',
+        registers: [
+            { name: 'CR0', sources: ['cr0'], description: 'Operating mode and paging control', fields: CR0_FIELDS },
+            { name: 'CR2', sources: ['cr2'], description: 'Linear address of the last page fault' },
+            { name: 'CR3', sources: ['cr3'], description: 'Page table base', fields: CR3_FIELDS },
+            { name: 'CR4', sources: ['cr4'], description: 'Architectural extensions', fields: CR4_FIELDS },
+            { name: 'CR8', sources: ['cr8'], description: 'Task priority (APIC TPR)' }
+        ]
+    },
+    {
+        name: 'MSRs',
+        registers: [
+            { name: 'EFER', sources: ['efer'], description: 'Extended feature enable (MSR 0xC0000080)', fields: EFER_FIELDS },
+            { name: 'FS_BASE', sources: ['fs_base'], description: 'FS segment base (MSR 0xC0000100)' },
+            { name: 'GS_BASE', sources: ['gs_base'], description: 'GS segment base (MSR 0xC0000101)' },
+            { name: 'KERNEL_GS_BASE', sources: ['k_gs_base'], description: 'Value SWAPGS exchanges with GS_BASE (MSR 0xC0000102)' }
+        ]
+    }
+];
+
+const X64_SEGMENTS = ['cs', 'ss', 'ds', 'es', 'fs', 'gs'];
+
+const PSTATE_FIELDS: FieldSpec[] = [
+    { name: 'SP', bit: 0, description: 'Stack pointer select (0: SP_EL0, 1: SP_ELx)' },
+    { name: 'EL', bit: 2, width: 2, description: 'Exception level', decode: v => `EL${v}` },
+    { name: 'nRW', bit: 4, description: 'Execution state (0: AArch64)' },
+    { name: 'F', bit: 6, description: 'FIQ masked' },
+    { name: 'I', bit: 7, description: 'IRQ masked' },
+    { name: 'A', bit: 8, description: 'SError masked' },
+    { name: 'D', bit: 9, description: 'Debug exceptions masked' },
+    { name: 'BTYPE', bit: 10, width: 2, description: 'Branch target type' },
+    { name: 'SSBS', bit: 12, description: 'Speculative store bypass safe' },
+    { name: 'IL', bit: 20, description: 'Illegal execution state' },
+    { name: 'SS', bit: 21, description: 'Software step' },
+    { name: 'PAN', bit: 22, description: 'Privileged access never' },
+    { name: 'UAO', bit: 23, description: 'User access override' },
+    { name: 'DIT', bit: 24, description: 'Data-independent timing' },
+    { name: 'TCO', bit: 25, description: 'Tag check override' },
+    { name: 'V', bit: 28, description: 'Overflow' },
+    { name: 'C', bit: 29, description: 'Carry' },
+    { name: 'Z', bit: 30, description: 'Zero' },
+    { name: 'N', bit: 31, description: 'Negative' }
+];
+
+const SCTLR_FIELDS: FieldSpec[] = [
+    { name: 'M', bit: 0, description: 'MMU enable' },
+    { name: 'A', bit: 1, description: 'Alignment check' },
+    { name: 'C', bit: 2, description: 'Data cache enable' },
+    { name: 'SA', bit: 3, description: 'SP alignment check at EL1' },
+    { name: 'SA0', bit: 4, description: 'SP alignment check at EL0' },
+    { name: 'nAA', bit: 6, description: 'Non-aligned access (LDAPR/STLR)' },
+    { name: 'I', bit: 12, description: 'Instruction cache enable' },
+    { name: 'EnDB', bit: 13, description: 'Pointer auth (DB key)' },
+    { name: 'DZE', bit: 14, description: 'DC ZVA at EL0' },
+    { name: 'UCT', bit: 15, description: 'CTR_EL0 access at EL0' },
+    { name: 'nTWI', bit: 16, description: 'WFI not trapped at EL0' },
+    { name: 'nTWE', bit: 18, description: 'WFE not trapped at EL0' },
+    { name: 'WXN', bit: 19, description: 'Write implies execute-never' },
+    { name: 'IESB', bit: 21, description: 'Implicit error synchronization barrier' },
+    { name: 'EIS', bit: 22, description: 'Exception entry is context-synchronizing' },
+    { name: 'SPAN', bit: 23, description: 'PAN not set on exception to EL1' },
+    { name: 'E0E', bit: 24, description: 'Big-endian data at EL0' },
+    { name: 'EE', bit: 25, description: 'Big-endian data at EL1 and table walks' },
+    { name: 'UCI', bit: 26, description: 'Cache maintenance at EL0' },
+    { name: 'EnDA', bit: 27, description: 'Pointer auth (DA key)' },
+    { name: 'nTLSMD', bit: 28, description: 'LDM/STM to device memory not trapped' },
+    { name: 'LSMAOE', bit: 29, description: 'Load/store multiple atomicity' },
+    { name: 'EnIB', bit: 30, description: 'Pointer auth (IB key)' },
+    { name: 'EnIA', bit: 31, description: 'Pointer auth (IA key)' }
+];
+
+const TTBR_FIELDS: FieldSpec[] = [
+    { name: 'CnP', bit: 0, description: 'Common not private' },
+    { name: 'BADDR', bit: 1, width: 47, description: 'Translation table base address', decode: v => hex(v << 1n) },
+    { name: 'ASID', bit: 48, width: 16, description: 'Address space identifier' }
+];
+
+// ESR_ELx.EC, ARM ARM D17.2.37.
+const EXCEPTION_CLASSES: { [ec: number]: string } = {
+    0x00: 'Unknown reason',
+    0x01: 'Trapped WFI/WFE',
+    0x07: 'SVE/SIMD/FP access trap',
+    0x0e: 'Illegal execution state',
+    0x15: 'SVC from AArch64',
+    0x16: 'HVC from AArch64',
+    0x17: 'SMC from AArch64',
+    0x18: 'Trapped MSR/MRS/system instruction',
+    0x19: 'SVE access trap',
+    0x1c: 'Pointer authentication failure',
+    0x20: 'Instruction abort from a lower EL',
+    0x21: 'Instruction abort from the current EL',
+    0x22: 'PC alignment fault',
+    0x24: 'Data abort from a lower EL',
+    0x25: 'Data abort from the current EL',
+    0x26: 'SP alignment fault',
+    0x2c: 'Trapped floating-point exception',
+    0x2f: 'SError interrupt',
+    0x30: 'Breakpoint from a lower EL',
+    0x31: 'Breakpoint from the current EL',
+    0x32: 'Software step from a lower EL',
+    0x33: 'Software step from the current EL',
+    0x34: 'Watchpoint from a lower EL',
+    0x35: 'Watchpoint from the current EL',
+    0x3c: 'BRK instruction'
+};
+
+const ESR_FIELDS: FieldSpec[] = [
+    { name: 'EC', bit: 26, width: 6, description: 'Exception class', decode: v => `${hex(v)} ${EXCEPTION_CLASSES[Number(v)] ?? 'Reserved'}` },
+    { name: 'IL', bit: 25, description: 'Instruction length (1: 32-bit)' },
+    { name: 'ISS', bit: 0, width: 25, description: 'Instruction specific syndrome' }
+];
+
+// Data and instruction abort ISS: the fault status code says what the MMU
+// tripped over, WnR whether a data access was a write.
+function abortFields(esr: bigint): DecodedField[] {
+    const ec = Number((esr >> 26n) & 0x3fn);
+    if (![0x20, 0x21, 0x24, 0x25].includes(ec)) {
+        return [];
+    }
+    const fsc = Number(esr & 0x3fn);
+    const fields: DecodedField[] = [
+        { name: 'FSC', value: `${hex(BigInt(fsc))} ${faultStatus(fsc)}`, description: 'Fault status code (bits 5:0)' }
+    ];
+    if (ec === 0x24 || ec === 0x25) {
+        fields.push({ name: 'WnR', value: String((esr >> 6n) & 1n), description: 'Write not read (bit 6)' });
+    }
+    fields.push({ name: 'FnV', value: String((esr >> 10n) & 1n), description: 'FAR not valid (bit 10)' });
+    return fields;
+}
+
+function faultStatus(fsc: number): string {
+    const level = fsc & 3;
+    switch (fsc >> 2) {
+        case 0: return `Address size fault, level ${level}`;
+        case 1: return `Translation fault, level ${level}`;
+        case 2: return `Access flag fault, level ${level}`;
+        case 3: return `Permission fault, level ${level}`;
+    }
+    switch (fsc) {
+        case 0x10: return 'Synchronous external abort';
+        case 0x21: return 'Alignment fault';
+        case 0x30: return 'TLB conflict abort';
+        default:   return 'Other fault';
+    }
+}
+
+const ARM64_GROUPS: { name: string; registers: RegisterSpec[] }[] = [
+    {
+        name: 'PSTATE',
+        registers: [{ name: 'PSTATE', sources: ['cpsr', 'pstate'], description: 'Processor state', fields: PSTATE_FIELDS }]
+    },
+    {
+        name: 'System Control',
+        registers: [{ name: 'SCTLR_EL1', sources: ['SCTLR_EL1', 'SCTLR'], description: 'System control at EL1', fields: SCTLR_FIELDS }]
+    },
+    {
+        name: 'Translation',
+        registers: [
+            { name: 'TTBR0_EL1', sources: ['TTBR0_EL1'], description: 'Lower (user) half table base', fields: TTBR_FIELDS },
+            { name: 'TTBR1_EL1', sources: ['TTBR1_EL1'], description: 'Upper (kernel) half table base', fields: TTBR_FIELDS },
+            { name: 'TCR_EL1', sources: ['TCR_EL1'], description: 'Translation control' }
+        ]
+    },
+    {
+        name: 'Exceptions',
+        registers: [
+            { name: 'VBAR_EL1', sources: ['VBAR_EL1', 'VBAR'], description: 'Exception vector table base' },
+            { name: 'ESR_EL1', sources: ['ESR_EL1'], description: 'Syndrome of the last exception taken to EL1', fields: ESR_FIELDS, extraFields: abortFields },
+            { name: 'FAR_EL1', sources: ['FAR_EL1'], description: 'Faulting virtual address of the last abort' },
+            { name: 'ELR_EL1', sources: ['ELR_EL1'], description: 'Return address of the last exception' },
+            { name: 'SPSR_EL1', sources: ['SPSR_EL1'], description: 'PSTATE saved on the last exception', fields: PSTATE_FIELDS }
+        ]
+    }
+];
+
+/** Lower-cased gdb register names the decoder reads for `arch`. */
+export function systemRegisterSources(arch: string | undefined): string[] {
+    const names = groupsFor(arch).flatMap(g => g.registers.flatMap(r => r.sources));
+    if (arch !== 'arm64') {
+        names.push(...X64_SEGMENTS);
+    }
+    return names.map(n => n.toLowerCase());
+}
+
+/** Whether the decoder has use for the QEMU monitor's `info registers`. */
+export function wantsMonitorDump(arch: string | undefined): boolean {
+    return arch !== 'arm64';
+}
+
+/**
+ * Groups for the scope. `values` maps lower-cased gdb register names to
+ * their raw values; registers the target doesn't expose are left out.
+ */
+export function decodeSystemRegisters(
+    arch: string | undefined,
+    values: Map<string, bigint>,
+    monitorDump?: string
+): RegisterGroup[] {
+    const groups: RegisterGroup[] = [];
+    for (const group of groupsFor(arch)) {
+        const registers: DecodedRegister[] = [];
+        for (const spec of group.registers) {
+            const source = spec.sources.map(s => s.toLowerCase()).find(s => values.has(s));
+            if (source !== undefined) {
+                registers.push(decodeRegister(spec, values.get(source)!));
+            }
+        }
+        if (registers.length > 0) {
+            groups.push({ name: group.name, registers });
+        }
+    }
+    if (arch === 'arm64') {
+        return groups;
+    }
+    const monitor = monitorDump ? parseX64MonitorDump(monitorDump) : undefined;
+    const segments = decodeSegments(values, monitor);
+    if (segments.length > 0) {
+        groups.push({ name: 'Segments', registers: segments });
+    }
+    if (monitor && monitor.tables.length > 0) {
+        groups.push({ name: 'Descriptor Tables', registers: monitor.tables });
+    }
+    return groups;
+}
+
+/** One-line summary of the flags set in a register, e.g. "[PG WP PE]". */
+export function flagSummary(register: DecodedRegister): string {
+    const set = register.fields.filter(f => f.value === '1').map(f => f.name).reverse();
+    return set.length ? `[${set.join(' ')}]` : '';
+}
+
+function groupsFor(arch: string | undefined) {
+    return arch === 'arm64' ? ARM64_GROUPS : X64_GROUPS;
+}
+
+function decodeRegister(spec: RegisterSpec, value: bigint): DecodedRegister {
+    const fields = (spec.fields ?? []).map(f => decodeField(f, value));
+    if (spec.extraFields) {
+        fields.push(...spec.extraFields(value));
+    }
+    const register: DecodedRegister = { name: spec.name, value: hex(value), description: spec.description, fields };
+    const summary = spec.name === 'PSTATE' || spec.name === 'SPSR_EL1'
+        ? pstateSummary(value)
+        : spec.name === 'ESR_EL1' ? EXCEPTION_CLASSES[Number((value >> 26n) & 0x3fn)] ?? '' : flagSummary(register);
+    if (summary) {
+        register.value = `${register.value} ${summary}`;
+    }
+    return register;
+}
+
+function decodeField(spec: FieldSpec, value: bigint): DecodedField {
+    const width = spec.width ?? 1;
+    const raw = (value >> BigInt(spec.bit)) & ((1n << BigInt(width)) - 1n);
+    const bits = width === 1 ? `bit ${spec.bit}` : `bits ${spec.bit + width - 1}:${spec.bit}`;
+    return {
+        name: spec.name,
+        value: spec.decode ? spec.decode(raw) : width === 1 ? String(raw) : hex(raw),
+        description: `${spec.description} (${bits})`
+    };
+}
+
+// "EL1h" style: exception level plus which stack pointer is in use.
+function pstateSummary(value: bigint): string {
+    if (value & 0x10n) {
+        return 'AArch32';
+    }
+    const el = (value >> 2n) & 3n;
+    const flags = ['N', 'Z', 'C', 'V'].filter((_, i) => value & (1n << BigInt(31 - i))).join('');
+    const masked = ['D', 'A', 'I', 'F'].filter((_, i) => value & (1n << BigInt(9 - i))).join('');
+    return `EL${el}${value & 1n ? 'h' : 't'}${flags ? ` ${flags}` : ''}${masked ? ` mask ${masked}` : ''}`;
+}
+
+interface MonitorSegment {
+    selector: number;
+    base: bigint;
+    limit: bigint;
+    flags: string;
+}
+
+interface X64MonitorDump {
+    segments: Map<string, MonitorSegment>;
+    tables: DecodedRegister[];
+}
+
+// Lines of x86 `info registers` like
+//   CS =0008 0000000000000000 ffffffff 00af9b00 DPL=0 CS64 [-RA]
+//   GDT=     0000000000105000 0000002f
+function parseX64MonitorDump(dump: string): X64MonitorDump {
+    const segments = new Map<string, MonitorSegment>();
+    const tables: DecodedRegister[] = [];
+    for (const line of dump.split(/\r?\n/)) {
+        const seg = /^(ES|CS|SS|DS|FS|GS|LDT|TR)\s*=([0-9a-f]{4}) ([0-9a-f]+) ([0-9a-f]+) [0-9a-f]+\s*(.*)$/i.exec(line.trim());
+        if (seg) {
+            segments.set(seg[1].toLowerCase(), {
+                selector: parseInt(seg[2], 16),
+                base: BigInt(`0x${seg[3]}`),
+                limit: BigInt(`0x${seg[4]}`),
+                flags: seg[5].trim()
+            });
+            continue;
+        }
+        const table = /^(GDT|IDT)=\s*([0-9a-f]+) ([0-9a-f]+)/i.exec(line.trim());
+        if (table) {
+            const base = BigInt(`0x${table[2]}`);
+            const limit = BigInt(`0x${table[3]}`);
+            const entrySize = table[1] === 'IDT' ? 16n : 8n;
+            tables.push({
+                name: `${table[1]}R`,
+                value: `${hex(base)} limit ${hex(limit)}`,
+                description: table[1] === 'IDT' ? 'Interrupt descriptor table register' : 'Global descriptor table register',
+                fields: [
+                    { name: 'Base', value: hex(base), description: 'Linear address of the table' },
+                    { name: 'Limit', value: hex(limit), description: 'Size of the table in bytes, minus one' },
+                    { name: 'Entries', value: String((limit + 1n) / entrySize), description: `${entrySize}-byte descriptors` }
+                ]
+            });
+        }
+    }
+    return { segments, tables };
+}
+
+function decodeSegments(values: Map<string, bigint>, monitor: X64MonitorDump | undefined): DecodedRegister[] {
+    const out: DecodedRegister[] = [];
+    for (const name of [...X64_SEGMENTS, 'ldt', 'tr']) {
+        const cached = monitor?.segments.get(name);
+        const selectorValue = values.get(name);
+        const selector = selectorValue !== undefined ? Number(selectorValue) : cached?.selector;
+        if (selector === undefined) {
+            continue;
+        }
+        const fields: DecodedField[] = [
+            { name: 'Index', value: String(selector >> 3), description: 'Descriptor index (bits 15:3)' },
+            { name: 'TI', value: String((selector >> 2) & 1), description: 'Table indicator, 0: GDT, 1: LDT (bit 2)' },
+            { name: 'RPL', value: String(selector & 3), description: 'Requested privilege level (bits 1:0)' }
+        ];
+        // In long mode only the FS/GS bases matter and they live in MSRs;
+        // prefer those over the monitor's descriptor cache.
+        const base = values.get(`${name}_base`) ?? cached?.base;
+        if (base !== undefined) {
+            fields.push({ name: 'Base', value: hex(base), description: 'Segment base' });
+        }
+        if (cached) {
+            fields.push({ name: 'Limit', value: hex(cached.limit), description: 'Segment limit' });
+            if (cached.flags) {
+                fields.push({ name: 'Attributes', value: cached.flags, description: 'Descriptor attributes as QEMU reports them' });
+            }
+        }
+        out.push({
+            name: name.toUpperCase(),
+            value: `0x${selector.toString(16).padStart(4, '0')}${cached?.flags ? ` ${cached.flags}` : ''}`,
+            description: name === 'tr' ? 'Task register' : name === 'ldt' ? 'Local descriptor table register' : `${name.toUpperCase()} segment selector`,
+            fields
+        });
+    }
+    return out;
+}
+
+/** One-line ESR reading, e.g. "Data abort from the current EL: write, Translation fault, level 3". */
+export function describeSyndrome(esr: bigint): string {
+    const ec = Number((esr >> 26n) & 0x3fn);
+    const name = EXCEPTION_CLASSES[ec] ?? `Reserved exception class ${hex(BigInt(ec))}`;
+    const abort = abortFields(esr);
+    if (abort.length === 0) {
+        return name;
+    }
+    const status = abort[0].value.replace(/^0x[0-9a-f]+ /, '');
+    const access = ec === 0x24 || ec === 0x25 ? ((esr >> 6n) & 1n ? 'write, ' : 'read, ') : '';
+    return `${name}: ${access}${status}`;
+}
+
+function hex(value: bigint): string {
+    return `0x${value.toString(16)}`;
+}
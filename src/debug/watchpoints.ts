@@ -0,0 +1,88 @@
+// Hardware watchpoint bookkeeping for DAP data breakpoints. Under TCG QEMU's
+// gdbstub emulates watchpoints and has no fixed limit, but with KVM/HVF it
+// programs the host CPU's debug registers: four on x64 (DR0-DR3) and
+// typically four on arm64 (DBGWVR0-3). The budget is four so the same
+// breakpoints work with acceleration on or off; past it gdb would fall back
+// to a software watchpoint, which single-steps the whole kernel.
+import { DebugProtocol } from 'vscode-debugprotocol';
+
+export const HARDWARE_WATCHPOINT_SLOTS = 4;
+
+export type WatchAccess = DebugProtocol.DataBreakpointAccessType;
+
+/** The memory a data breakpoint covers. */
+export interface WatchRegion {
+    address: bigint;
+    size: number;
+}
+
+// DAP `dataId`s are opaque to VS Code; ours carry the resolved region so a
+// breakpoint survives the variable going out of scope (kernel data is
+// mostly globals and heap objects anyway).
+export function formatDataId(region: WatchRegion): string {
+    return `0x${region.address.toString(16)}:${region.size}`;
+}
+
+export function parseDataId(dataId: string): WatchRegion | undefined {
+    const m = /^(0x[0-9a-fA-F]+):(\d+)$/.exec(dataId);
+    if (!m) {
+        return undefined;
+    }
+    const size = parseInt(m[2], 10);
+    return size > 0 ? { address: BigInt(m[1]), size } : undefined;
+}
+
+/**
+ * Debug registers a region needs. x64 registers cover 1, 2, 4 or 8 bytes
+ * aligned to their size, so an unaligned region is split into aligned
+ * power-of-two pieces the way gdb does it. arm64 byte-address-select covers
+ * any bytes within one aligned doubleword.
+ */
+export function slotsNeeded(arch: string | undefined, region: WatchRegion): number {
+    if (arch === 'arm64') {
+        const first = region.address / 8n;
+        const last = (region.address + BigInt(region.size) - 1n) / 8n;
+        return Number(last - first) + 1;
+    }
+    let slots = 0;
+    let address = region.address;
+    let remaining = region.size;
+    while (remaining > 0) {
+        let width = 8;
+        while (width > 1 && (address % BigInt(width) !== 0n || width > remaining)) {
+            width /= 2;
+        }
+        address += BigInt(width);
+        remaining -= width;
+        slots++;
+    }
+    return slots;
+}
+
+const SCALAR_TYPES: { [size: number]: string } = {
+    1: 'unsigned char',
+    2: 'unsigned short',
+    4: 'unsigned int',
+    8: 'unsigned long long'
+};
+
+/**
+ * gdb expression for the region. Watching the location rather than the
+ * variable's own expression keeps gdb from re-evaluating it (and from
+ * deleting the watchpoint when a frame unwinds).
+ */
+export function watchExpression(region: WatchRegion): string {
+    const address = `0x${region.address.toString(16)}`;
+    const scalar = SCALAR_TYPES[region.size];
+    return scalar
+        ? `*(${scalar} *) ${address}`
+        : `*(unsigned char (*)[${region.size}]) ${address}`;
+}
+
+export function describeAccess(access: WatchAccess): string {
+    switch (access) {
+        case 'read':      return 'read';
+        case 'readWrite': return 'access';
+        default:          return 'write';
+    }
+}
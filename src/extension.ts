@@ -5,20 +5,28 @@ import { LoadingViewProvider } from './providers/loadingView';
 import { updateCosmosProjectContext, isCosmosProject } from './utils/project';
 import { newProjectCommand } from './commands/newProject';
 import { checkToolsCommand, installToolsCommand } from './commands/tools';
-import { buildCommand } from './commands/build';
-import { runCommand } from './commands/run';
-import { debugCommand } from './commands/debug';
+import { buildCommand, selectBuildConfigurationCommand } from './commands/build';
+import { runCommand, showQemuCommandLineCommand } from './commands/run';
+import { debugCommand, watchAddressCommand, removeAddressWatchCommand, copyCrashReportCommand } from './commands/debug';
 import { cleanCommand } from './commands/clean';
+import { kernelSizeCommand, exportKernelSizeCommand } from './commands/kernelSize';
 import { showProjectProperties } from './ui/propertiesWebview';
 import { RunDebugAdapterFactory } from './utils/runAdapter';
 import { CosmosDebugConfigurationProvider, ensureLaunchJson } from './providers/debugConfigProvider';
+import { CosmosTaskProvider, COSMOS_TASK_TYPE } from './providers/taskProvider';
 import { CosmosTestController } from './testing/testController';
 import { KernelDebugAdapterFactory } from './debug/kernelDebugAdapter';
 import { KernelThreadsProvider, KernelThreadsTrackerFactory } from './views/kernelThreadsView';
 import { KernelGCProvider, KernelGCTrackerFactory } from './views/kernelGCView';
 import { KernelMemoryProvider, KernelMemoryTrackerFactory } from './views/kernelMemoryView';
 import { KernelMemoryMapViewProvider } from './views/kernelMemoryMapView';
+import { NetworkViewProvider } from './views/networkView';
+import { getNetworkSession, onDidChangeNetworkSession } from './utils/networkCapture';
 import { getOutputChannel } from './utils/output';
+import { initBuildDiagnostics } from './utils/buildDiagnostics';
+import {
+    initBuildConfiguration, createBuildConfigurationStatusBarItem, onDidChangeBuildConfiguration
+} from './utils/buildConfiguration';
 
 let projectTreeProvider: ProjectTreeProvider;
 let toolsTreeProvider: ToolsTreeProvider;
@@ -33,6 +41,12 @@ export function activate(context: vscode.ExtensionContext) {
     // Set cosmos project context early so loading view can show
     vscode.commands.executeCommand('setContext', 'cosmos:isCosmosProject', isCosmos);
 
+    // Active Debug/Release configuration, remembered per workspace
+    initBuildConfiguration(context);
+
+    // Build errors in the Problems panel
+    initBuildDiagnostics(context);
+
     // Initialize tree providers
     projectTreeProvider = new ProjectTreeProvider();
     toolsTreeProvider = new ToolsTreeProvider();
@@ -48,7 +62,7 @@ export function activate(context: vscode.ExtensionContext) {
     // traffic to the external gdb-mi adapter, so a single Stop click takes
     // down the entire tree.
     const debugConfigProvider = new CosmosDebugConfigurationProvider();
-    const debugAdapterFactory = new KernelDebugAdapterFactory(context.extensionPath, getOutputChannel());
+    const debugAdapterFactory = new KernelDebugAdapterFactory(context.extensionPath, getOutputChannel(), context.workspaceState);
     context.subscriptions.push(
         vscode.debug.registerDebugConfigurationProvider('cosmos-debug', debugConfigProvider),
         vscode.debug.registerDebugConfigurationProvider('cosmos-debug', debugConfigProvider,
@@ -56,6 +70,12 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.debug.registerDebugAdapterDescriptorFactory('cosmos-debug', debugAdapterFactory)
     );
 
+    // "cosmos" task type: build/run/clean/test usable from tasks.json,
+    // Ctrl+Shift+B and preLaunchTask.
+    context.subscriptions.push(
+        vscode.tasks.registerTaskProvider(COSMOS_TASK_TYPE, new CosmosTaskProvider())
+    );
+
     // When a Cosmos debug session ends, swing the sidebar back to the Cosmos
     // view so the user lands on the project tree instead of an idle Run and
     // Debug pane. Only triggers for our own debug types.
@@ -90,11 +110,25 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.debug.registerDebugAdapterTrackerFactory('cosmos-debug', new KernelThreadsTrackerFactory(kernelThreadsProvider)),
         vscode.debug.registerDebugAdapterTrackerFactory('cosmos-debug', new KernelGCTrackerFactory(kernelGCProvider)),
         vscode.debug.registerDebugAdapterTrackerFactory('cosmos-debug', new KernelMemoryTrackerFactory(kernelMemoryProvider)),
+        // Several kernels can be debugged at once; the views show the focused one.
+        vscode.debug.onDidChangeActiveDebugSession(() => {
+            kernelThreadsProvider.followActiveSession();
+            kernelGCProvider.followActiveSession();
+            kernelMemoryProvider.followActiveSession();
+        }),
         vscode.commands.registerCommand('cosmos.kernelThreads.copy', async () => {
             const text = kernelThreadsProvider.serialize();
             await vscode.env.clipboard.writeText(text);
             vscode.window.setStatusBarMessage('Kernel Threads copied to clipboard', 2000);
         }),
+        vscode.commands.registerCommand('cosmos.kernelThreads.groupByCpu', () => {
+            kernelThreadsProvider.setGroupByCpu(true);
+            vscode.commands.executeCommand('setContext', 'cosmos:kernelThreadsByCpu', true);
+        }),
+        vscode.commands.registerCommand('cosmos.kernelThreads.ungroup', () => {
+            kernelThreadsProvider.setGroupByCpu(false);
+            vscode.commands.executeCommand('setContext', 'cosmos:kernelThreadsByCpu', false);
+        }),
         vscode.commands.registerCommand('cosmos.kernelThreads.refresh', () => {
             const session = vscode.debug.activeDebugSession;
             if (session && session.type === 'cosmos-debug') {
@@ -119,6 +153,32 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Network view: forwarded ports and the decoded packet capture of the
+    // last launched kernel (run or debug).
+    const networkProvider = new NetworkViewProvider();
+    networkProvider.setSession(getNetworkSession());
+    const networkView = vscode.window.createTreeView('cosmos.network', { treeDataProvider: networkProvider });
+    context.subscriptions.push(
+        networkView,
+        networkProvider,
+        networkView.onDidChangeVisibility(e => networkProvider.setVisible(e.visible)),
+        onDidChangeNetworkSession(session => networkProvider.setSession(session)),
+        vscode.commands.registerCommand('cosmos.network.refresh', () => networkProvider.refresh()),
+        vscode.commands.registerCommand('cosmos.network.copy', async () => {
+            await vscode.env.clipboard.writeText(networkProvider.serialize());
+            vscode.window.setStatusBarMessage('Packet list copied to clipboard', 2000);
+        }),
+        vscode.commands.registerCommand('cosmos.network.revealCapture', () => {
+            const capturePath = networkProvider.capturePath;
+            if (!capturePath) {
+                vscode.window.showInformationMessage('No packet capture for this session. Enable Capture Packets in Project Properties.');
+                return;
+            }
+            vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(capturePath));
+        })
+    );
+    networkProvider.setVisible(networkView.visible);
+
     // Register loading view provider
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(LoadingViewProvider.viewType, loadingViewProvider)
@@ -130,9 +190,18 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('cosmos.checkTools', () => checkToolsCommand(toolsTreeProvider)),
         vscode.commands.registerCommand('cosmos.installTools', installToolsCommand),
         vscode.commands.registerCommand('cosmos.build', buildCommand),
+        vscode.commands.registerCommand('cosmos.selectBuildConfiguration', selectBuildConfigurationCommand),
+        createBuildConfigurationStatusBarItem(),
+        onDidChangeBuildConfiguration(() => projectTreeProvider.refresh()),
         vscode.commands.registerCommand('cosmos.run', runCommand),
+        vscode.commands.registerCommand('cosmos.showQemuCommandLine', showQemuCommandLineCommand),
         vscode.commands.registerCommand('cosmos.debug', debugCommand),
+        vscode.commands.registerCommand('cosmos.watchAddress', watchAddressCommand),
+        vscode.commands.registerCommand('cosmos.removeAddressWatch', removeAddressWatchCommand),
+        vscode.commands.registerCommand('cosmos.copyCrashReport', copyCrashReportCommand),
         vscode.commands.registerCommand('cosmos.clean', cleanCommand),
+        vscode.commands.registerCommand('cosmos.kernelSize', kernelSizeCommand),
+        vscode.commands.registerCommand('cosmos.exportKernelSize', exportKernelSizeCommand),
         vscode.commands.registerCommand('cosmos.refreshTools', () => toolsTreeProvider.refresh()),
         vscode.commands.registerCommand('cosmos.projectProperties', () => showProjectProperties(context, projectTreeProvider))
     );
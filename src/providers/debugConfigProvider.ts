@@ -37,6 +37,80 @@ export class CosmosDebugConfigurationProvider implements vscode.DebugConfigurati
         }
         return config;
     }
+
+    // Checked after ${workspaceFolder} & co. are expanded so paths can be
+    // tested. Returning null aborts the launch and opens launch.json.
+    resolveDebugConfigurationWithSubstitutedVariables(
+        _folder: vscode.WorkspaceFolder | undefined,
+        config: vscode.DebugConfiguration,
+        _token?: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.DebugConfiguration> {
+        const errors = validateDebugConfiguration(config);
+        if (errors.length > 0) {
+            vscode.window.showErrorMessage(`Invalid "${config.name}" configuration: ${errors.join(' ')}`);
+            return null;
+        }
+        return config;
+    }
+}
+
+const ARCHES = ['x64', 'arm64'];
+const VALUES_FORMATTING = ['disabled', 'parseText', 'prettyPrinters'];
+
+/**
+ * Problems with a cosmos-debug configuration, one sentence each. Mirrors the
+ * schema in package.json, which launch.json only warns about.
+ */
+export function validateDebugConfiguration(config: vscode.DebugConfiguration): string[] {
+    const errors: string[] = [];
+    const isString = (v: unknown): v is string => typeof v === 'string';
+    const isStringArray = (v: unknown) => Array.isArray(v) && v.every(isString);
+    const optional = (key: string, ok: (v: unknown) => boolean, expected: string) => {
+        if (config[key] !== undefined && !ok(config[key])) {
+            errors.push(`"${key}" must be ${expected}.`);
+        }
+    };
+    const isPort = (v: unknown) => Number.isInteger(v) && (v as number) > 0 && (v as number) < 65536;
+    const isHostPort = (v: unknown) => isString(v) && /^(?:\[[^\]]+\]:|[^:]*:)?\d{1,5}$/.test(v.trim());
+
+    if (config.request !== 'launch' && config.request !== 'attach') {
+        errors.push('"request" must be "launch" or "attach".');
+    }
+    optional('arch', v => isString(v) && ARCHES.includes(v), `one of ${ARCHES.join(', ')}`);
+    optional('stopAtEntry', v => isString(v) && v.trim().length > 0, 'a symbol name');
+    optional('setupCommands', isStringArray, 'an array of gdb commands');
+    optional('pathSubstitutions', v => !!v && typeof v === 'object' && !Array.isArray(v)
+        && Object.values(v as object).every(isString), 'an object mapping paths to paths');
+    optional('valuesFormatting', v => isString(v) && VALUES_FORMATTING.includes(v), `one of ${VALUES_FORMATTING.join(', ')}`);
+    optional('showDevDebugOutput', v => typeof v === 'boolean', 'true or false');
+    optional('panicSymbols', isStringArray, 'an array of symbol names');
+    optional('exceptionSymbols', isStringArray, 'an array of symbol names');
+
+    if (config.request === 'attach') {
+        optional('target', isHostPort, '"host:port"');
+        optional('qmp', isHostPort, '"host:port"');
+        optional('program', isString, 'a path');
+        optional('interruptLog', isString, 'a path');
+        if (isString(config.program) && !fs.existsSync(config.program)) {
+            errors.push(`"program" does not exist: ${config.program}.`);
+        }
+    } else {
+        optional('gdbPort', isPort, 'a port number');
+        optional('qmpPort', isPort, 'a port number');
+        optional('logInterrupts', v => typeof v === 'boolean', 'true or false');
+        if (config.gdbPort !== undefined && config.gdbPort === config.qmpPort) {
+            errors.push('"gdbPort" and "qmpPort" must differ.');
+        }
+    }
+    optional('projectDir', isString, 'a path');
+    optional('kernelName', isString, 'a project name');
+    if (isString(config.projectDir) && !fs.existsSync(config.projectDir)) {
+        errors.push(`"projectDir" does not exist: ${config.projectDir}.`);
+    } else if (isString(config.projectDir) && isString(config.kernelName)
+        && !fs.existsSync(path.join(config.projectDir, `${config.kernelName}.csproj`))) {
+        errors.push(`No ${config.kernelName}.csproj in ${config.projectDir}.`);
+    }
+    return errors;
 }
 
 /**
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { getProjectInfo } from '../utils/project';
+import { getBuildConfiguration } from '../utils/buildConfiguration';
 
 export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectItem> {
     private _onDidChangeTreeData = new vscode.EventEmitter<ProjectItem | undefined>();
@@ -23,11 +24,17 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectItem>
         const archLabel = arch === 'arm64' ? 'ARM64' : 'x64';
         const archDesc = arch === 'arm64' ? 'ARM 64-bit' : 'Intel/AMD 64-bit';
 
+        const configuration = getBuildConfiguration();
+        const configItem = new ProjectItem('Configuration', 'Change build configuration', 'cosmos.selectBuildConfiguration', undefined, '$(settings)');
+        configItem.description = configuration;
+
         return [
             new ProjectItem('Properties', 'Edit project settings', 'cosmos.projectProperties', undefined, '$(settings-gear)'),
-            new ProjectItem(`Build`, `Build for ${archDesc}`, 'cosmos.build', arch, '$(gear)'),
+            configItem,
+            new ProjectItem(`Build`, `Build for ${archDesc} (${configuration})`, 'cosmos.build', arch, '$(gear)'),
             new ProjectItem(`Run`, `Run in QEMU (${archLabel})`, 'cosmos.run', arch, '$(play)'),
             new ProjectItem(`Debug`, `Debug with GDB (${archLabel})`, 'cosmos.debug', arch, '$(debug-alt)'),
+            new ProjectItem('Kernel Size', `Section and symbol sizes (${archLabel})`, 'cosmos.kernelSize', arch, '$(graph)'),
             new ProjectItem('Clean', 'Remove build outputs', 'cosmos.clean', undefined, '$(trash)')
         ];
     }
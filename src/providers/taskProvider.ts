@@ -0,0 +1,380 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { spawn, ChildProcess } from 'child_process';
+import { getProjectInfo, parseProjectProperties, readTargetArch } from '../utils/project';
+import { getCosmosToolsPath } from '../utils/cosmos';
+import { BuildPhaseTracker, getBuildSupervisor } from '../utils/buildSupervisor';
+import { killProcessTree } from '../utils/processTree';
+import { getEnvWithDotnetTools, getCommandPath } from '../utils/execution';
+import { resolveKernelIso } from '../utils/kernelArtifacts';
+import { buildLaunchArgs } from '../utils/qemuOptions';
+import { beginNetworkSession, newCapturePath } from '../utils/networkCapture';
+import { cleanBuildOutputs } from '../commands/clean';
+import { getCosmosBuildArgs } from '../commands/build';
+import { BuildConfiguration, getBuildConfiguration } from '../utils/buildConfiguration';
+import { findTestKernels, locateTestRunnerDll, locateTestRunnerProject } from '../testing/discovery';
+import { defaultTimeoutSeconds } from '../testing/timeouts';
+
+export const COSMOS_TASK_TYPE = 'cosmos';
+
+/**
+ * Shape of a `"type": "cosmos"` entry in tasks.json. Mirrors the arguments
+ * `buildCommand` passes to `cosmos build`; `project` defaults to the
+ * workspace's Cosmos project and `arch` to its configured architecture.
+ */
+export interface CosmosTaskDefinition extends vscode.TaskDefinition {
+    task: 'build' | 'run' | 'clean' | 'test';
+    arch?: string;
+    configuration?: string;
+    verbosity?: 'normal' | 'verbose';
+    properties?: { [name: string]: string };
+    project?: string;
+    suite?: string;
+}
+
+const ARCHES = ['x64', 'arm64'];
+const CONFIGURATIONS: BuildConfiguration[] = ['Debug', 'Release'];
+
+// Contributed in package.json; together they cover csc/ILC/MSBuild and
+// GCC/yasm output. lld errors name no file (BuildOutputParser pins them on
+// the project file, which a problem matcher cannot), so a task build leaves
+// them in the terminal.
+const BUILD_PROBLEM_MATCHERS = ['$cosmos-msbuild', '$cosmos-gcc'];
+
+/**
+ * Exposes Cosmos build/run/clean/test as VS Code tasks so they can be bound
+ * to the default build task, chained with `dependsOn` and used as a
+ * `preLaunchTask`.
+ */
+export class CosmosTaskProvider implements vscode.TaskProvider {
+    provideTasks(_token: vscode.CancellationToken): vscode.Task[] {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        const projectInfo = getProjectInfo();
+        if (!folder || !projectInfo) {
+            return [];
+        }
+
+        const tasks: vscode.Task[] = [];
+        for (const arch of ARCHES) {
+            for (const configuration of CONFIGURATIONS) {
+                tasks.push(this.createTask({ type: COSMOS_TASK_TYPE, task: 'build', arch, configuration }, folder));
+            }
+        }
+        tasks.push(this.createTask({ type: COSMOS_TASK_TYPE, task: 'run', arch: projectInfo.arch }, folder));
+        tasks.push(this.createTask({ type: COSMOS_TASK_TYPE, task: 'clean' }, folder));
+        for (const kernel of findTestKernels()) {
+            for (const arch of ARCHES) {
+                tasks.push(this.createTask({ type: COSMOS_TASK_TYPE, task: 'test', arch, suite: kernel.suiteName }, folder));
+            }
+        }
+        return tasks;
+    }
+
+    resolveTask(task: vscode.Task, _token: vscode.CancellationToken): vscode.Task | undefined {
+        const definition = task.definition as CosmosTaskDefinition;
+        if (!definition.task) {
+            return undefined;
+        }
+        const folder = typeof task.scope === 'object' ? task.scope : vscode.workspace.workspaceFolders?.[0];
+        if (!folder) {
+            return undefined;
+        }
+        // The definition object must be reused as-is so VS Code can match the
+        // resolved task back to its tasks.json entry.
+        return this.createTask(definition, folder);
+    }
+
+    private createTask(definition: CosmosTaskDefinition, folder: vscode.WorkspaceFolder): vscode.Task {
+        switch (definition.task) {
+            case 'build':
+                return this.createBuildTask(definition, folder);
+            case 'run':
+                return this.createRunTask(definition, folder);
+            case 'clean':
+                return this.createCleanTask(definition, folder);
+            case 'test':
+                return this.createTestTask(definition, folder);
+            default: {
+                // tasks.json is not type-checked, so this can still be reached.
+                const _exhaustive: never = definition.task;
+                throw new Error(`Unknown cosmos task "${_exhaustive}"`);
+            }
+        }
+    }
+
+    private createBuildTask(definition: CosmosTaskDefinition, folder: vscode.WorkspaceFolder): vscode.Task {
+        const project = resolveTaskProject(definition, folder);
+        const arch = definition.arch || project?.arch || 'x64';
+        const configuration = (definition.configuration || getBuildConfiguration()) as BuildConfiguration;
+        const projectDir = project?.projectDir ?? folder.uri.fsPath;
+        const name = project ? path.basename(project.csproj, '.csproj') : path.basename(projectDir);
+        const title = `Building ${name} (${arch}, ${configuration})`;
+
+        const execution = new vscode.CustomExecution(async () => new SupervisedPseudoterminal(title, write => {
+            const cosmosCmd = getCommandPath('cosmos') || 'cosmos';
+            const args = getCosmosBuildArgs(projectDir, arch, {
+                configuration,
+                verbosity: definition.verbosity,
+                properties: definition.properties
+            });
+            write(`> ${cosmosCmd} ${args.join(' ')}`);
+            return spawn(cosmosCmd, args, {
+                cwd: projectDir,
+                env: { ...getEnvWithDotnetTools(), COLUMNS: '1000', CI: 'true' },
+                shell: false,
+                stdio: ['ignore', 'pipe', 'pipe'],
+                detached: process.platform !== 'win32'
+            });
+        }));
+        const task = new vscode.Task(
+            definition, folder, `build ${arch} (${configuration})`, COSMOS_TASK_TYPE, execution, BUILD_PROBLEM_MATCHERS
+        );
+        task.group = vscode.TaskGroup.Build;
+        task.presentationOptions = { reveal: vscode.TaskRevealKind.Silent, clear: true };
+        return task;
+    }
+
+    private createRunTask(definition: CosmosTaskDefinition, folder: vscode.WorkspaceFolder): vscode.Task {
+        // The ISO only exists once a build ran (possibly a dependsOn of this
+        // very task), so the command line is assembled at execution time.
+        const execution = new vscode.CustomExecution(async () => new ProcessPseudoterminal(write => {
+            const project = resolveTaskProject(definition, folder);
+            if (!project) {
+                throw new Error('No Cosmos project found');
+            }
+            const arch = definition.arch || project.arch;
+            const isoPath = resolveKernelIso(project.projectDir, arch);
+            if (!isoPath) {
+                throw new Error(`No ISO in ${path.join(project.projectDir, `output-${arch}`)}. Build first.`);
+            }
+            const cosmosCmd = getCosmosToolsPath();
+            if (!cosmosCmd) {
+                throw new Error('cosmos CLI not installed. Install Cosmos.Tools as a dotnet global tool.');
+            }
+            const props = parseProjectProperties(project.csproj);
+            // The task terminal already shows the guest's serial output, so
+            // serialMode "terminal" needs no socket here.
+            const capturePath = props.qemu.capturePackets ? newCapturePath(project.projectDir, arch) : undefined;
+            const args = buildLaunchArgs({ projectDir: project.projectDir, props, arch, isoPath, capturePath, log: write });
+            beginNetworkSession(props.name, arch, props.qemu, capturePath);
+            write(`> ${cosmosCmd} ${args.join(' ')}`);
+            // stdin 'ignore' for the same reason as runCommand: QEMU dies
+            // under a piped stdin when VS Code is its parent on Windows.
+            return spawn(cosmosCmd, args, {
+                cwd: project.projectDir,
+                env: getEnvWithDotnetTools(),
+                shell: false,
+                stdio: ['ignore', 'pipe', 'pipe']
+            });
+        }));
+        const arch = definition.arch || resolveTaskProject(definition, folder)?.arch || 'x64';
+        return new vscode.Task(definition, folder, `run ${arch}`, COSMOS_TASK_TYPE, execution);
+    }
+
+    private createCleanTask(definition: CosmosTaskDefinition, folder: vscode.WorkspaceFolder): vscode.Task {
+        const execution = new vscode.CustomExecution(async () => new ProcessPseudoterminal(write => {
+            const project = resolveTaskProject(definition, folder);
+            if (!project) {
+                throw new Error('No Cosmos project found');
+            }
+            const cleaned = cleanBuildOutputs(project.projectDir);
+            write(`Cleaned ${cleaned} directories in ${project.projectDir}`);
+            return undefined;
+        }));
+        const task = new vscode.Task(definition, folder, 'clean', COSMOS_TASK_TYPE, execution);
+        task.group = vscode.TaskGroup.Clean;
+        return task;
+    }
+
+    private createTestTask(definition: CosmosTaskDefinition, folder: vscode.WorkspaceFolder): vscode.Task {
+        const arch = definition.arch || 'x64';
+        const suite = definition.suite || '';
+        const kernel = findTestKernels().find(k => k.suiteName === suite);
+        if (!kernel) {
+            const execution = new vscode.CustomExecution(async () => new ProcessPseudoterminal(() => {
+                throw new Error(`No test kernel for suite "${suite}"`);
+            }));
+            return new vscode.Task(definition, folder, `test ${suite} (${arch})`, COSMOS_TASK_TYPE, execution);
+        }
+        const mode = vscode.workspace.getConfiguration('cosmos').get<'ci' | 'dev'>('testMode', 'ci');
+        const timeout = defaultTimeoutSeconds(suite, arch);
+        const xml = path.join(os.tmpdir(), `cosmos-test-${suite}-${arch}-task.xml`);
+        const engineArgs = [kernel.projectDir, arch, String(timeout), xml, mode];
+
+        // Prefer the prebuilt engine; fall back to `dotnet run` so the task
+        // also works on a fresh clone where the engine was never built.
+        const dll = locateTestRunnerDll();
+        const engineProject = locateTestRunnerProject();
+        const args = dll
+            ? [dll, ...engineArgs]
+            : ['run', '--project', engineProject ?? 'Cosmos.TestRunner.Engine', '-c', 'Debug', '--', ...engineArgs];
+
+        // The engine builds the test kernel, so it takes the build slot too.
+        const execution = new vscode.CustomExecution(async () => new SupervisedPseudoterminal(`Testing ${suite} (${arch})`, write => {
+            const dotnetCmd = getCommandPath('dotnet') || 'dotnet';
+            write(`> ${dotnetCmd} ${args.join(' ')}`);
+            return spawn(dotnetCmd, args, {
+                cwd: folder.uri.fsPath,
+                env: getEnvWithDotnetTools(),
+                shell: false,
+                stdio: ['ignore', 'pipe', 'pipe'],
+                detached: process.platform !== 'win32'
+            });
+        }));
+        const task = new vscode.Task(definition, folder, `test ${suite} (${arch})`, COSMOS_TASK_TYPE, execution);
+        task.group = vscode.TaskGroup.Test;
+        return task;
+    }
+}
+
+function resolveTaskProject(
+    definition: CosmosTaskDefinition,
+    folder: vscode.WorkspaceFolder
+): { projectDir: string; csproj: string; arch: string } | undefined {
+    if (definition.project) {
+        // A project directory or .csproj, relative to the task's folder.
+        const target = path.resolve(folder.uri.fsPath, definition.project);
+        const csproj = target.endsWith('.csproj') ? target : findProjectFile(target);
+        const projectDir = path.dirname(csproj);
+        return { projectDir, csproj, arch: readTargetArch(projectDir) };
+    }
+    const info = getProjectInfo();
+    if (!info) {
+        return undefined;
+    }
+    return { projectDir: path.dirname(info.csproj), csproj: info.csproj, arch: info.arch };
+}
+
+// The directory's own .csproj; a missing one is reported by whatever reads it.
+function findProjectFile(projectDir: string): string {
+    let names: string[] = [];
+    try {
+        names = fs.readdirSync(projectDir).filter(n => n.endsWith('.csproj')).sort();
+    } catch { } // Ignore a missing or unreadable directory
+    return path.join(projectDir, names[0] ?? `${path.basename(projectDir)}.csproj`);
+}
+
+/**
+ * Terminal for CustomExecution tasks. `start` either does its work inline
+ * (returning undefined) or returns a child process whose output is streamed
+ * into the terminal; closing the terminal kills the process.
+ */
+class ProcessPseudoterminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private readonly closeEmitter = new vscode.EventEmitter<number>();
+    readonly onDidWrite = this.writeEmitter.event;
+    readonly onDidClose = this.closeEmitter.event;
+    private proc: ChildProcess | undefined;
+
+    constructor(private readonly start: (write: (line: string) => void) => ChildProcess | undefined) { }
+
+    open(): void {
+        const write = (line: string) => this.writeEmitter.fire(`${line.replace(/\r?\n/g, '\r\n')}\r\n`);
+        try {
+            this.proc = this.start(write);
+        } catch (err: any) {
+            write(`Error: ${err?.message || err}`);
+            this.closeEmitter.fire(1);
+            return;
+        }
+        if (!this.proc) {
+            this.closeEmitter.fire(0);
+            return;
+        }
+        const stream = (d: Buffer) => this.writeEmitter.fire(d.toString().replace(/\r?\n/g, '\r\n'));
+        this.proc.stdout?.on('data', stream);
+        this.proc.stderr?.on('data', stream);
+        this.proc.on('close', code => this.closeEmitter.fire(code ?? 1));
+        this.proc.on('error', err => {
+            write(`Error: ${err.message}`);
+            this.closeEmitter.fire(1);
+        });
+    }
+
+    close(): void {
+        if (this.proc && !this.proc.killed && this.proc.exitCode === null) {
+            this.proc.kill();
+        }
+    }
+}
+
+/**
+ * Terminal for build and test tasks. The process runs in the build
+ * supervisor's slot, so it queues behind (or, per `cosmos.concurrentBuilds`,
+ * is turned away by) a build started from a command, and vice versa.
+ * Cancelling the progress notification or closing the terminal ends it.
+ */
+class SupervisedPseudoterminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private readonly closeEmitter = new vscode.EventEmitter<number>();
+    readonly onDidWrite = this.writeEmitter.event;
+    readonly onDidClose = this.closeEmitter.event;
+    private readonly closed = new vscode.CancellationTokenSource();
+
+    constructor(
+        private readonly title: string,
+        private readonly start: (write: (line: string) => void) => ChildProcess
+    ) { }
+
+    open(): void {
+        const write = (line: string) => this.writeEmitter.fire(`${line.replace(/\r?\n/g, '\r\n')}\r\n`);
+        getBuildSupervisor().run(this.title, (progress, token) => this.runProcess(write, progress, token)).then(
+            code => {
+                if (code === undefined) {
+                    write('A Cosmos build is already running.');
+                }
+                this.closeEmitter.fire(code ?? 1);
+            },
+            err => {
+                write(`Error: ${err?.message || err}`);
+                this.closeEmitter.fire(1);
+            }
+        );
+    }
+
+    close(): void {
+        this.closed.cancel();
+    }
+
+    private runProcess(
+        write: (line: string) => void,
+        progress: vscode.Progress<{ message?: string }>,
+        token: vscode.CancellationToken
+    ): Promise<number> {
+        // Closed while queued behind another build.
+        if (this.closed.token.isCancellationRequested) {
+            return Promise.resolve(1);
+        }
+        let proc: ChildProcess;
+        try {
+            proc = this.start(write);
+        } catch (err: any) {
+            write(`Error: ${err?.message || err}`);
+            return Promise.resolve(1);
+        }
+        const phases = new BuildPhaseTracker((_phase, label) => progress.report({ message: label }));
+        return new Promise(resolve => {
+            const subscriptions = [
+                token.onCancellationRequested(() => killProcessTree(proc)),
+                this.closed.token.onCancellationRequested(() => killProcessTree(proc))
+            ];
+            const finish = (code: number) => {
+                subscriptions.forEach(s => s.dispose());
+                resolve(code);
+            };
+            const stream = (d: Buffer) => {
+                phases.append(d);
+                this.writeEmitter.fire(d.toString().replace(/\r?\n/g, '\r\n'));
+            };
+            proc.stdout?.on('data', stream);
+            proc.stderr?.on('data', stream);
+            proc.on('close', code => finish(code ?? 1));
+            proc.on('error', err => {
+                write(`Error: ${err.message}`);
+                finish(1);
+            });
+        });
+    }
+}
@@ -7,6 +7,8 @@ import { TestKernel, locateTestRunnerDll, locateTestRunnerProject } from './disc
 import { defaultTimeoutSeconds } from './timeouts';
 import { parseJUnitXml, JUnitCase } from './junitParser';
 import { getEnvWithDotnetTools, getCommandPath } from '../utils/execution';
+import { parseProjectProperties } from '../utils/project';
+import { buildMachineArgs } from '../utils/qemuOptions';
 
 export interface RunOutcome {
     /** true = engine returned 0; false = non-zero, killed, or no XML */
@@ -86,6 +88,24 @@ export async function runTestKernel(opts: RunOptions): Promise<RunOutcome> {
         `cosmos-test-${kernel.suiteName}-${arch}-${process.pid}-${Date.now()}.xml`
     );
 
+    // The machine the test kernel's own properties describe, built like Run
+    // and Debug build theirs. The engine boots the ISO itself and takes
+    // these `cosmos run` options, QEMU's own after their `--`, following its
+    // positional arguments. Serial stays on stdio whatever the project
+    // says: the engine reads the results from it.
+    let machineArgs: string[];
+    try {
+        const props = parseProjectProperties(kernel.csprojPath);
+        machineArgs = buildMachineArgs({
+            projectDir: kernel.projectDir,
+            props: { ...props, qemu: { ...props.qemu, serialMode: 'stdio' } },
+            arch,
+            log: m => out.appendOutput(`${m}\r\n`)
+        });
+    } catch (err: any) {
+        return { success: false, cases: [], error: `Invalid QEMU configuration: ${err?.message || err}` };
+    }
+
     const dotnet = getCommandPath('dotnet') || 'dotnet';
     const args = [
         enginePath,
@@ -93,7 +113,8 @@ export async function runTestKernel(opts: RunOptions): Promise<RunOutcome> {
         arch,
         String(timeout),
         tmpXml,
-        mode
+        mode,
+        ...machineArgs
     ];
 
     const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || kernel.projectDir;
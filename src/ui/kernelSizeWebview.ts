@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import { KernelSizeReport, KernelSizeComparison, SizeDelta, formatBytes } from '../utils/kernelSize';
+
+let panel: vscode.WebviewPanel | undefined;
+
+/**
+ * Shows (or refreshes) the Kernel Size panel. A single panel is reused so
+ * rebuilding and reopening the report does not stack tabs.
+ */
+export function showKernelSizeReport(report: KernelSizeReport, comparison?: KernelSizeComparison) {
+    if (!panel) {
+        panel = vscode.window.createWebviewPanel(
+            'cosmosKernelSize',
+            'Kernel Size',
+            vscode.ViewColumn.One,
+            { enableScripts: true }
+        );
+        panel.onDidDispose(() => { panel = undefined; });
+        panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'export') {
+                vscode.commands.executeCommand('cosmos.exportKernelSize', message.arch);
+            }
+        });
+    }
+    panel.title = `${report.project} (${report.arch}) - Kernel Size`;
+    panel.webview.html = getKernelSizeWebviewContent(report, comparison);
+    panel.reveal();
+}
+
+function getKernelSizeWebviewContent(report: KernelSizeReport, comparison?: KernelSizeComparison): string {
+    const maxSection = Math.max(1, ...report.sections.map(s => s.size));
+    const sectionRows = report.sections.map(s => `
+            <tr>
+                <td class="mono">${escapeHtml(s.name)}${s.inFile ? '' : ' <span class="muted">(no file space)</span>'}</td>
+                <td class="num">${formatBytes(s.size)}</td>
+                <td class="bar-cell"><div class="bar" style="width:${(100 * s.size / maxSection).toFixed(1)}%"></div></td>
+            </tr>`).join('');
+
+    const groupRows = (groups: KernelSizeReport['types']) => groups.slice(0, 30).map(g => `
+            <tr>
+                <td class="mono">${escapeHtml(g.name)}</td>
+                <td class="num">${formatBytes(g.size)}</td>
+                <td class="num muted">${g.symbols}</td>
+            </tr>`).join('');
+
+    const symbolRows = report.symbols.slice(0, 50).map(s => `
+            <tr title="${escapeHtml(s.name)}">
+                <td class="mono">${escapeHtml(s.demangled)}</td>
+                <td class="mono muted">${escapeHtml(s.section)}</td>
+                <td class="num">${formatBytes(s.size)}</td>
+            </tr>`).join('');
+
+    const summary: [string, number | undefined, SizeDelta | undefined][] = [
+        ['ELF', report.elfSize, comparison?.elf],
+        ['ISO', report.isoSize, comparison?.iso],
+        ['.text', report.totals.text, comparison?.totals[0]],
+        ['.rodata', report.totals.rodata, comparison?.totals[1]],
+        ['.data', report.totals.data, comparison?.totals[2]],
+        ['.bss', report.totals.bss, comparison?.totals[3]]
+    ];
+    const cards = summary.map(([label, size, delta]) => `
+            <div class="card">
+                <div class="card-label">${label}</div>
+                <div class="card-value">${size !== undefined ? formatBytes(size) : '—'}</div>
+                ${delta ? formatDelta(delta.delta) : ''}
+            </div>`).join('');
+
+    const changeRows = (comparison?.types ?? []).slice(0, 30).map(d => `
+            <tr>
+                <td class="mono">${escapeHtml(d.name)}</td>
+                <td class="num">${formatBytes(d.previous)}</td>
+                <td class="num">${formatBytes(d.current)}</td>
+                <td class="num">${formatDelta(d.delta)}</td>
+            </tr>`).join('');
+
+    const changesSection = comparison
+        ? `<div class="section">
+            <div class="section-title">Changed types since ${escapeHtml(new Date(comparison.previousGeneratedAt).toLocaleString())}</div>
+            ${changeRows
+                ? `<table><tr><th>Type</th><th class="num">Before</th><th class="num">After</th><th class="num">Change</th></tr>${changeRows}</table>`
+                : '<div class="muted">No type changed size.</div>'}
+        </div>`
+        : `<div class="section"><div class="muted">No previous build to compare with. Build again to see changes.</div></div>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Kernel Size</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif;
+            padding: 0;
+            margin: 0;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            line-height: 1.5;
+        }
+        .container {
+            padding: 32px 24px;
+        }
+        .header {
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-start;
+            margin-bottom: 24px;
+        }
+        .header h1 {
+            font-size: 28px;
+            font-weight: 600;
+            margin: 0 0 4px 0;
+            letter-spacing: -0.5px;
+        }
+        .subtitle, .muted {
+            color: var(--vscode-descriptionForeground);
+        }
+        .subtitle {
+            font-size: 14px;
+        }
+        button {
+            background-color: var(--vscode-button-background, #0e639c);
+            color: var(--vscode-button-foreground, #fff);
+            border: none;
+            border-radius: 4px;
+            padding: 8px 14px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        .cards {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
+            gap: 12px;
+            margin-bottom: 32px;
+        }
+        .card {
+            border: 1px solid var(--vscode-widget-border, rgba(128,128,128,0.18));
+            border-radius: 10px;
+            padding: 12px 16px;
+            background: var(--vscode-editorWidget-background, rgba(127,127,127,0.05));
+        }
+        .card-label {
+            font-size: 11px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .card-value {
+            font-size: 20px;
+            font-weight: 600;
+        }
+        .section {
+            margin-bottom: 32px;
+        }
+        .section-title {
+            font-size: 11px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 12px;
+            padding-bottom: 8px;
+            border-bottom: 1px solid var(--vscode-widget-border, rgba(128,128,128,0.2));
+        }
+        .columns {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(360px, 1fr));
+            gap: 24px;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 13px;
+        }
+        th {
+            text-align: left;
+            font-weight: 500;
+            color: var(--vscode-descriptionForeground);
+            padding: 4px 8px;
+        }
+        td {
+            padding: 3px 8px;
+            border-top: 1px solid var(--vscode-widget-border, rgba(128,128,128,0.12));
+            word-break: break-all;
+        }
+        .num {
+            text-align: right;
+            white-space: nowrap;
+        }
+        .mono {
+            font-family: var(--vscode-editor-font-family, monospace);
+        }
+        .bar-cell {
+            width: 40%;
+        }
+        .bar {
+            height: 8px;
+            border-radius: 4px;
+            background: var(--vscode-progressBar-background, #0e70c0);
+        }
+        .grew {
+            color: var(--vscode-errorForeground, #f48771);
+        }
+        .shrank {
+            color: var(--vscode-testing-iconPassed, #73c991);
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <div>
+                <h1>${escapeHtml(report.project)}</h1>
+                <div class="subtitle">${escapeHtml(report.arch)} · ${escapeHtml(report.configuration)} · ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</div>
+            </div>
+            <button onclick="exportJson()">Export JSON</button>
+        </div>
+
+        <div class="cards">${cards}
+        </div>
+
+        ${changesSection}
+
+        <div class="section">
+            <div class="section-title">Sections</div>
+            <table>${sectionRows}</table>
+        </div>
+
+        <div class="columns">
+            <div class="section">
+                <div class="section-title">Namespaces</div>
+                <table><tr><th>Namespace</th><th class="num">Size</th><th class="num">Symbols</th></tr>${groupRows(report.namespaces)}</table>
+            </div>
+            <div class="section">
+                <div class="section-title">Types</div>
+                <table><tr><th>Type</th><th class="num">Size</th><th class="num">Symbols</th></tr>${groupRows(report.types)}</table>
+            </div>
+        </div>
+
+        <div class="section">
+            <div class="section-title">Largest symbols</div>
+            <table><tr><th>Symbol</th><th>Section</th><th class="num">Size</th></tr>${symbolRows}</table>
+        </div>
+    </div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        function exportJson() {
+            vscode.postMessage({ command: 'export', arch: ${JSON.stringify(report.arch)} });
+        }
+    </script>
+</body>
+</html>`;
+}
+
+function formatDelta(delta: number): string {
+    if (delta === 0) {
+        return '<span class="muted">±0</span>';
+    }
+    const cls = delta > 0 ? 'grew' : 'shrank';
+    return `<span class="${cls}">${delta > 0 ? '+' : '−'}${formatBytes(Math.abs(delta))}</span>`;
+}
+
+function escapeHtml(s: string): string {
+    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { getProjectInfo, parseProjectProperties, saveProjectProperties, saveQemuConfig, ProjectProperties } from '../utils/project';
+import { getProjectInfo, parseProjectProperties, saveProjectProperties, saveQemuConfig, ProjectProperties, MAX_CPU_COUNT } from '../utils/project';
 import { ProjectTreeProvider } from '../providers/projectTree';
 
 export function showProjectProperties(context: vscode.ExtensionContext, projectTreeProvider: ProjectTreeProvider) {
@@ -68,6 +68,14 @@ export function showProjectProperties(context: vscode.ExtensionContext, projectT
     );
 }
 
+// Free-text values go inside value="..." attributes; quotes (common in extra
+// QEMU arguments) would otherwise end the attribute.
+function escapeAttr(s: string | undefined): string {
+    return (s ?? '')
+        .replace(/&/g, '&amp;').replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
 function getPropertiesWebviewContent(props: ProjectProperties, csprojPath: string): string {
     return `<!DOCTYPE html>
 <html lang="en">
@@ -422,7 +430,7 @@ function getPropertiesWebviewContent(props: ProjectProperties, csprojPath: strin
 
             <div class="field">
                 <label class="field-label">Kernel Entry Class</label>
-                <input type="text" id="kernelClass" class="field-input" value="${props.kernelClass}">
+                <input type="text" id="kernelClass" class="field-input" value="${escapeAttr(props.kernelClass)}">
                 <div class="field-hint">Fully qualified class name (e.g., MyKernel.Kernel)</div>
             </div>
             </div>
@@ -559,7 +567,7 @@ function getPropertiesWebviewContent(props: ProjectProperties, csprojPath: strin
             <div class="section-content">
             <div class="field">
                 <label class="field-label">GCC Compiler Flags</label>
-                <input type="text" id="gccFlags" class="field-input" value="${props.gccFlags}" placeholder="Uses SDK defaults if empty">
+                <input type="text" id="gccFlags" class="field-input" value="${escapeAttr(props.gccFlags)}" placeholder="Uses SDK defaults if empty">
             </div>
             </div>
         </div>
@@ -613,13 +621,20 @@ function getPropertiesWebviewContent(props: ProjectProperties, csprojPath: strin
                 <div class="field-hint">Which processor QEMU emulates for the guest. ${props.targetArch === 'x64' ? '&quot;Max&quot; exposes every CPU feature QEMU supports; &quot;Host&quot; passes your real CPU through (fastest, needs KVM).' : 'Cortex-A72/A53 are common ARM cores; &quot;Max&quot; enables all features.'}</div>
             </div>
 
+            <div class="field">
+                <label class="field-label">CPUs</label>
+                <input type="number" id="qemuCpuCount" class="field-input" min="1" max="${MAX_CPU_COUNT}" value="${props.qemu.cpuCount}">
+                <div class="field-hint">Virtual CPUs the guest boots with (QEMU -smp). Above 1 the kernel has to bring up the other cores itself; each one shows up as a &quot;vCPU&quot; thread while debugging. Applies to Run, Debug and the Testing view; test runs hand it to Cosmos.TestRunner.Engine, and an engine that does not read extra <code>cosmos run</code> options boots one CPU.</div>
+            </div>
+
             <div class="field">
                 <label class="field-label">Serial Output</label>
                 <select id="qemuSerialMode" class="field-input">
                     <option value="stdio" ${props.qemu.serialMode === 'stdio' ? 'selected' : ''}>Standard I/O (Output panel)</option>
+                    <option value="terminal" ${props.qemu.serialMode === 'terminal' ? 'selected' : ''}>Interactive terminal</option>
                     <option value="none" ${props.qemu.serialMode === 'none' ? 'selected' : ''}>Disabled</option>
                 </select>
-                <div class="field-hint">Where the kernel's serial console goes — the text from Console.Write / Serial output. &quot;Standard I/O&quot; streams it into the VS Code Output panel.</div>
+                <div class="field-hint">Where the kernel's serial console goes — the text from Console.Write / Serial output. &quot;Standard I/O&quot; streams it into the VS Code Output panel; &quot;Interactive terminal&quot; opens a terminal you can also type into.</div>
             </div>
             </div>
 
@@ -643,6 +658,34 @@ function getPropertiesWebviewContent(props: ProjectProperties, csprojPath: strin
                 <div class="field-hint">The network adapter the kernel sees. Pick &quot;None&quot; for no networking; cards without a kernel driver are grayed out. Supported: ${props.targetArch === 'x64' ? 'Intel E1000E and VirtIO over PCI — VirtIO needs PCI enabled' : 'VirtIO over MMIO (virtio-net-device)'}.</div>
             </div>
 
+            <div class="toggle-field">
+                <div class="toggle-info">
+                    <div class="toggle-label">Port Forwarding</div>
+                    <div class="toggle-hint">Reach guest services from the host through QEMU user-mode networking</div>
+                </div>
+                <label class="toggle-switch">
+                    <input type="checkbox" id="qemuEnableNetwork" ${props.qemu.enableNetwork ? 'checked' : ''}>
+                    <span class="toggle-slider"></span>
+                </label>
+            </div>
+
+            <div class="field">
+                <label class="field-label">Port Forwards</label>
+                <input type="text" id="qemuNetworkPorts" class="field-input" value="${escapeAttr(props.qemu.networkPorts)}" placeholder="5555, 8080:80, udp:6000">
+                <div class="field-hint">Comma-separated <code>[tcp|udp:]HOST[:GUEST]</code> entries. <code>5555</code> forwards host TCP port 5555 to the same guest port; <code>8080:80</code> maps host 8080 to guest 80. Uses the card above, or ${props.targetArch === 'x64' ? 'Intel E1000E' : 'VirtIO'} when none is selected.</div>
+            </div>
+
+            <div class="toggle-field">
+                <div class="toggle-info">
+                    <div class="toggle-label">Capture Packets</div>
+                    <div class="toggle-hint">Record the guest's traffic to captures-${props.targetArch}/*.pcap, shown in the Network view</div>
+                </div>
+                <label class="toggle-switch">
+                    <input type="checkbox" id="qemuCapturePackets" ${props.qemu.capturePackets ? 'checked' : ''}>
+                    <span class="toggle-slider"></span>
+                </label>
+            </div>
+
             <div class="field">
                 <label class="field-label">Keyboard</label>
                 <select id="qemuKeyboard" class="field-input">
@@ -693,7 +736,7 @@ function getPropertiesWebviewContent(props: ProjectProperties, csprojPath: strin
 
             <div class="field">
                 <label class="field-label">Extra Arguments</label>
-                <input type="text" id="qemuExtraArgs" class="field-input" value="${props.qemu.extraArgs}" placeholder="-device ich9-ahci">
+                <input type="text" id="qemuExtraArgs" class="field-input" value="${escapeAttr(props.qemu.extraArgs)}" placeholder="-device ich9-ahci">
                 <div class="field-hint">Raw flags appended to the QEMU launch command, for advanced options not covered above (e.g. <code>-device …</code>). Leave empty if unsure.</div>
             </div>
             </div>
@@ -751,14 +794,14 @@ function getPropertiesWebviewContent(props: ProjectProperties, csprojPath: strin
                 memory: document.getElementById('qemuMemory').value,
                 machineType: document.getElementById('qemuMachineType').value,
                 cpuModel: document.getElementById('qemuCpuModel').value,
+                cpuCount: Math.min(${MAX_CPU_COUNT}, Math.max(1, parseInt(document.getElementById('qemuCpuCount').value, 10) || 1)),
                 serialMode: document.getElementById('qemuSerialMode').value,
                 networkCard: document.getElementById('qemuNetworkCard').value,
                 keyboard: document.getElementById('qemuKeyboard').value,
                 mouse: document.getElementById('qemuMouse').value,
-                // Legacy network toggle/ports are no longer editable in this panel;
-                // preserve whatever the project already had so saving doesn't wipe it.
-                enableNetwork: ${props.qemu.enableNetwork},
-                networkPorts: ${JSON.stringify(props.qemu.networkPorts)},
+                enableNetwork: document.getElementById('qemuEnableNetwork').checked,
+                networkPorts: document.getElementById('qemuNetworkPorts').value,
+                capturePackets: document.getElementById('qemuCapturePackets').checked,
                 extraArgs: document.getElementById('qemuExtraArgs').value,
                 // Persist only rows that name a path; blank rows are UI scratch.
                 disks: disks.filter(d => d.path && d.path.trim()).map(d => ({
@@ -891,10 +934,14 @@ function getPropertiesWebviewContent(props: ProjectProperties, csprojPath: strin
         document.getElementById('qemuMemory').addEventListener('change', saveQemu);
         document.getElementById('qemuMachineType').addEventListener('change', saveQemu);
         document.getElementById('qemuCpuModel').addEventListener('change', saveQemu);
+        document.getElementById('qemuCpuCount').addEventListener('change', saveQemu);
         document.getElementById('qemuSerialMode').addEventListener('change', saveQemu);
         document.getElementById('qemuNetworkCard').addEventListener('change', saveQemu);
         document.getElementById('qemuKeyboard').addEventListener('change', saveQemu);
         document.getElementById('qemuMouse').addEventListener('change', saveQemu);
+        document.getElementById('qemuEnableNetwork').addEventListener('change', saveQemu);
+        document.getElementById('qemuNetworkPorts').addEventListener('input', onQemuInputChange);
+        document.getElementById('qemuCapturePackets').addEventListener('change', saveQemu);
         document.getElementById('qemuExtraArgs').addEventListener('input', onQemuInputChange);
 
         // Render the disk list from the loaded config.
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { isCosmosProject } from './project';
+
+export type BuildConfiguration = 'Debug' | 'Release';
+
+export const BUILD_CONFIGURATIONS: { label: BuildConfiguration; description: string }[] = [
+    { label: 'Debug', description: 'Debug build with symbols' },
+    { label: 'Release', description: 'Optimized release build' }
+];
+
+const STATE_KEY = 'cosmos.buildConfiguration';
+
+let workspaceState: vscode.Memento | undefined;
+const changeEmitter = new vscode.EventEmitter<BuildConfiguration>();
+
+/** Fires after the active build configuration changes. */
+export const onDidChangeBuildConfiguration = changeEmitter.event;
+
+/**
+ * Must run during activation: the active configuration is remembered per
+ * workspace in the extension's workspaceState.
+ */
+export function initBuildConfiguration(context: vscode.ExtensionContext): void {
+    workspaceState = context.workspaceState;
+}
+
+/** The configuration Build, Run and Debug use unless told otherwise. */
+export function getBuildConfiguration(): BuildConfiguration {
+    const stored = workspaceState?.get<string>(STATE_KEY);
+    return stored === 'Release' ? 'Release' : 'Debug';
+}
+
+export async function setBuildConfiguration(configuration: BuildConfiguration): Promise<void> {
+    if (configuration === getBuildConfiguration()) {
+        return;
+    }
+    await workspaceState?.update(STATE_KEY, configuration);
+    changeEmitter.fire(configuration);
+}
+
+/**
+ * Status bar entry showing the active configuration; clicking it opens the
+ * same picker as `cosmos.selectBuildConfiguration`. Only visible while a
+ * Cosmos project is open.
+ */
+export function createBuildConfigurationStatusBarItem(): vscode.Disposable {
+    const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    item.command = 'cosmos.selectBuildConfiguration';
+    item.tooltip = 'Cosmos build configuration';
+    const update = () => {
+        item.text = `$(gear) Cosmos: ${getBuildConfiguration()}`;
+        if (isCosmosProject()) {
+            item.show();
+        } else {
+            item.hide();
+        }
+    };
+    update();
+    return vscode.Disposable.from(
+        item,
+        onDidChangeBuildConfiguration(update),
+        vscode.workspace.onDidChangeWorkspaceFolders(update)
+    );
+}
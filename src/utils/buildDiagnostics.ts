@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * One error/warning recognized in `cosmos build` output. `file` is absolute
+ * when the tool printed a location; toolchain errors without one (lld
+ * undefined symbols, ILC failures) are attached to the project file.
+ */
+export interface BuildProblem {
+    file: string;
+    line: number;
+    column: number;
+    endLine?: number;
+    endColumn?: number;
+    severity: 'error' | 'warning' | 'info';
+    code?: string;
+    message: string;
+    source: 'csc' | 'msbuild' | 'ilc' | 'gcc' | 'lld' | 'yasm';
+}
+
+// MSBuild canonical format, used by csc, ILC and the MSBuild tasks themselves:
+//   /src/Kernel.cs(12,9): error CS1002: ; expected [/src/Kernel.csproj]
+//   /src/Kernel.cs(12,9,12,14): warning IL2026: ... [/src/Kernel.csproj]
+const msbuildLocated = /^\s*(.+?)\((\d+)(?:,(\d+))?(?:,(\d+),(\d+))?\)\s*:\s*(error|warning|info)\s+([A-Za-z]+\d+)\s*:\s*(.*?)(?:\s+\[([^\]]+)\])?\s*$/;
+// Same format without a line: "ILC : error IL1005: ...", "EXEC : error : ...".
+const msbuildUnlocated = /^\s*([^:(]*?)\s*:\s*(error|warning)\s*([A-Za-z]+\d+)?\s*:\s*(.*?)(?:\s+\[([^\]]+)\])?\s*$/;
+// GCC/clang (GCCCompilerFlags builds) and yasm:
+//   src/native/io.c:14:5: error: implicit declaration of function 'outb'
+//   src/boot.asm:22: error: undefined symbol `kmain'
+const gccLocated = /^\s*((?:[A-Za-z]:)?[^:\s][^:]*?):(\d+)(?::(\d+))?:\s*(fatal error|error|warning|note):\s*(.*)$/;
+// ld.lld / lld: "ld.lld: error: undefined symbol: RhpNewFast"
+const lldLine = /^\s*(?:ld\.lld|lld|ld)(?:\.exe)?:\s*(error|warning):\s*(.*)$/;
+// lld follow-up lines ("  >>> referenced by Kernel.o:(...)") extend the last message.
+const lldContinuation = /^\s*>>>\s*(.*)$/;
+
+const nativeSourceExt = /\.(c|h|cc|cpp|hpp|s|S|asm|inc)$/;
+
+/**
+ * Recognizes the error/warning formats of every tool `cosmos build` drives
+ * (csc, ILC, MSBuild, GCC, yasm, lld) and turns them into BuildProblems.
+ * Feed it complete lines in order; lld's multi-line undefined-symbol reports
+ * are folded into a single problem.
+ */
+export class BuildOutputParser {
+    private readonly problems: BuildProblem[] = [];
+    private readonly seen = new Set<string>();
+    private lastLld: BuildProblem | undefined;
+
+    constructor(private readonly projectDir: string, private readonly csproj: string) { }
+
+    parseLine(rawLine: string): void {
+        const line = rawLine.replace(/\r$/, '');
+        if (!line.trim()) {
+            return;
+        }
+
+        const cont = lldContinuation.exec(line);
+        if (cont && this.lastLld) {
+            this.lastLld.message += `\n${cont[1].trim()}`;
+            return;
+        }
+        this.lastLld = undefined;
+
+        let m = lldLine.exec(line);
+        if (m) {
+            const problem: BuildProblem = {
+                file: this.csproj,
+                line: 1,
+                column: 1,
+                severity: m[1] === 'error' ? 'error' : 'warning',
+                message: m[2].trim(),
+                source: 'lld'
+            };
+            // Not deduplicated yet: continuation lines may still be appended,
+            // and the summary at the end of the build repeats the whole block.
+            this.problems.push(problem);
+            this.lastLld = problem;
+            return;
+        }
+
+        m = msbuildLocated.exec(line);
+        if (m) {
+            const code = m[7];
+            this.add({
+                file: this.resolve(m[1], m[9]),
+                line: parseInt(m[2], 10),
+                column: m[3] ? parseInt(m[3], 10) : 1,
+                endLine: m[4] ? parseInt(m[4], 10) : undefined,
+                endColumn: m[5] ? parseInt(m[5], 10) : undefined,
+                severity: m[6] as BuildProblem['severity'],
+                code,
+                message: m[8].trim(),
+                source: sourceForCode(code)
+            });
+            return;
+        }
+
+        m = gccLocated.exec(line);
+        if (m && nativeSourceExt.test(m[1])) {
+            const severity = m[4] === 'note' ? 'info' : m[4] === 'warning' ? 'warning' : 'error';
+            this.add({
+                file: this.resolve(m[1]),
+                line: parseInt(m[2], 10),
+                column: m[3] ? parseInt(m[3], 10) : 1,
+                severity,
+                message: m[5].trim(),
+                source: /\.(asm|inc)$/.test(m[1]) ? 'yasm' : 'gcc'
+            });
+            return;
+        }
+
+        m = msbuildUnlocated.exec(line);
+        if (m && m[1] && !/\s{2,}/.test(m[1])) {
+            const code = m[3];
+            const origin = m[1].trim();
+            this.add({
+                file: m[5] ? this.resolve(m[5]) : this.csproj,
+                line: 1,
+                column: 1,
+                severity: m[2] as BuildProblem['severity'],
+                code,
+                message: origin ? `${origin}: ${m[4].trim()}` : m[4].trim(),
+                source: /^ilc/i.test(origin) || (code && /^IL/i.test(code)) ? 'ilc' : 'msbuild'
+            });
+        }
+    }
+
+    /**
+     * Returns everything collected so far, with lld problems deduplicated
+     * now that their continuation lines are complete.
+     */
+    getProblems(): BuildProblem[] {
+        const out: BuildProblem[] = [];
+        const seenLld = new Set<string>();
+        for (const p of this.problems) {
+            if (p.source === 'lld') {
+                const key = `${p.severity}|${p.message}`;
+                if (seenLld.has(key)) {
+                    continue;
+                }
+                seenLld.add(key);
+            }
+            out.push(p);
+        }
+        return out;
+    }
+
+    private add(problem: BuildProblem): void {
+        // Verbose MSBuild prints every diagnostic twice: inline and again in
+        // the summary at the end. Keep the first.
+        const key = `${problem.file}|${problem.line}|${problem.column}|${problem.code ?? ''}|${problem.message}`;
+        if (this.seen.has(key)) {
+            return;
+        }
+        this.seen.add(key);
+        this.problems.push(problem);
+    }
+
+    // Relative paths from csc are relative to the project that was being
+    // built (the trailing "[...csproj]"), everything else to the kernel project.
+    private resolve(file: string, owningProject?: string): string {
+        const trimmed = file.trim();
+        if (path.isAbsolute(trimmed)) {
+            return path.normalize(trimmed);
+        }
+        const base = owningProject && path.isAbsolute(owningProject.trim())
+            ? path.dirname(owningProject.trim())
+            : this.projectDir;
+        return path.normalize(path.join(base, trimmed));
+    }
+}
+
+function sourceForCode(code: string): BuildProblem['source'] {
+    if (/^CS/i.test(code)) {
+        return 'csc';
+    }
+    if (/^IL/i.test(code)) {
+        return 'ilc';
+    }
+    return 'msbuild';
+}
+
+let diagnostics: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Must run during activation: the collection belongs to the extension
+ * context and is disposed with it.
+ */
+export function initBuildDiagnostics(context: vscode.ExtensionContext): void {
+    diagnostics = vscode.languages.createDiagnosticCollection('cosmos-build');
+    context.subscriptions.push(diagnostics);
+}
+
+export function getBuildDiagnostics(): vscode.DiagnosticCollection {
+    if (!diagnostics) {
+        throw new Error('Build diagnostics used before activation');
+    }
+    return diagnostics;
+}
+
+/**
+ * Collects build output as it streams in and publishes the recognized
+ * problems to the Problems panel. The collection is cleared when a build
+ * starts, so stale errors from the previous run never linger.
+ */
+export class BuildDiagnosticsCollector {
+    private readonly parser: BuildOutputParser;
+    private partial = '';
+
+    constructor(projectDir: string, csproj: string) {
+        this.parser = new BuildOutputParser(projectDir, csproj);
+        getBuildDiagnostics().clear();
+    }
+
+    append(data: string | Buffer): void {
+        this.partial += data.toString().replace(/\x1b\[[0-9;]*m/g, '');
+        const lines = this.partial.split(/\r?\n/);
+        this.partial = lines.pop() ?? '';
+        for (const line of lines) {
+            this.parser.parseLine(line);
+        }
+    }
+
+    /**
+     * Flushes the trailing partial line and publishes the diagnostics.
+     * Returns the number of errors found.
+     */
+    publish(): number {
+        if (this.partial) {
+            this.parser.parseLine(this.partial);
+            this.partial = '';
+        }
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        let errors = 0;
+        for (const p of this.parser.getProblems()) {
+            const startLine = Math.max(0, p.line - 1);
+            const startCol = Math.max(0, p.column - 1);
+            const endLine = p.endLine !== undefined ? Math.max(0, p.endLine - 1) : startLine;
+            const endCol = p.endColumn !== undefined ? Math.max(0, p.endColumn - 1) : Number.MAX_SAFE_INTEGER;
+            const diag = new vscode.Diagnostic(
+                new vscode.Range(startLine, startCol, endLine, endCol),
+                p.message,
+                p.severity === 'error'
+                    ? vscode.DiagnosticSeverity.Error
+                    : p.severity === 'warning'
+                        ? vscode.DiagnosticSeverity.Warning
+                        : vscode.DiagnosticSeverity.Information
+            );
+            diag.source = p.source;
+            if (p.code) {
+                diag.code = p.code;
+            }
+            if (p.severity === 'error') {
+                errors++;
+            }
+            const list = byFile.get(p.file) ?? [];
+            list.push(diag);
+            byFile.set(p.file, list);
+        }
+        const collection = getBuildDiagnostics();
+        collection.clear();
+        for (const [file, diags] of byFile) {
+            collection.set(vscode.Uri.file(file), diags);
+        }
+        return errors;
+    }
+}
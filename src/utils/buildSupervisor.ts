@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+
+export type BuildPhase = 'restore' | 'compile' | 'ilc' | 'link' | 'iso';
+
+const PHASE_LABELS: { [phase in BuildPhase]: string } = {
+    restore: 'Restoring packages',
+    compile: 'Compiling C#',
+    ilc: 'ILC compile',
+    link: 'Linking native kernel',
+    iso: 'Creating ISO'
+};
+
+const PHASE_ORDER: BuildPhase[] = ['restore', 'compile', 'ilc', 'link', 'iso'];
+
+// A logged command line running one of `tools`, bare or by (quoted) path.
+function invocation(tools: string): RegExp {
+    return new RegExp(`^\\s*(?:"[^"]*[\\\\/]|[^"\\s]*[\\\\/])?(?:${tools})(?:\\.exe)?"?\\s`, 'i');
+}
+
+// Markers in the verbose `cosmos build` log that announce each phase. The
+// build only moves forward, so a later match never steps back a phase.
+// ISO and link are matched on the step itself — the tool's command line or
+// MSBuild's target header — since file names and messages mention `.iso`
+// or "linking" long before either runs.
+const PHASE_PATTERNS: [BuildPhase, RegExp][] = [
+    ['iso', invocation('xorriso|grub-mkrescue')],
+    ['link', invocation('ld\\.lld|lld|ld')],
+    ['link', /^\s*(?:Target\s+"?)?LinkNative\b/],
+    ['ilc', /\bILC\b|IlcCompile|Generating native code/i],
+    ['compile', /CoreCompile|\bcsc(\.dll|\.exe)?\b|-> .*\.dll\s*$/i],
+    ['restore', /Determining projects to restore|\bRestor(e|ing)\b/i]
+];
+
+/**
+ * Tracks which phase a build is in from its streamed output. Feed it raw
+ * chunks; `onPhase` fires once per phase, in order.
+ */
+export class BuildPhaseTracker {
+    private partial = '';
+    private phaseIndex = -1;
+
+    constructor(private readonly onPhase: (phase: BuildPhase, label: string) => void) { }
+
+    append(data: string | Buffer): void {
+        this.partial += data.toString();
+        const lines = this.partial.split(/\r?\n/);
+        this.partial = lines.pop() ?? '';
+        for (const line of lines) {
+            this.parseLine(line);
+        }
+    }
+
+    private parseLine(line: string): void {
+        for (const [phase, pattern] of PHASE_PATTERNS) {
+            if (!pattern.test(line)) {
+                continue;
+            }
+            const index = PHASE_ORDER.indexOf(phase);
+            if (index > this.phaseIndex) {
+                this.phaseIndex = index;
+                this.onPhase(phase, PHASE_LABELS[phase]);
+            }
+            return;
+        }
+    }
+}
+
+/**
+ * Runs builds one at a time. Each build gets a cancellable progress
+ * notification; a build requested while another is running either waits its
+ * turn or is turned away, per `cosmos.concurrentBuilds`. Two `cosmos build`
+ * processes writing the same output directory corrupt each other.
+ */
+export class BuildSupervisor {
+    private running: vscode.CancellationTokenSource | undefined;
+    private tail: Promise<unknown> = Promise.resolve();
+    private pending = 0;
+
+    get isBuilding(): boolean {
+        return this.running !== undefined || this.pending > 0;
+    }
+
+    /**
+     * Runs `task` once no other build is active. Resolves to undefined when
+     * the request was rejected because a build was already running.
+     */
+    async run<T>(
+        title: string,
+        task: (progress: vscode.Progress<{ message?: string }>, token: vscode.CancellationToken) => Promise<T>
+    ): Promise<T | undefined> {
+        if (this.isBuilding) {
+            const policy = vscode.workspace.getConfiguration('cosmos').get<'queue' | 'reject'>('concurrentBuilds', 'queue');
+            if (policy === 'reject') {
+                vscode.window.showWarningMessage('A Cosmos build is already running.', 'Cancel Running Build')
+                    .then(choice => {
+                        if (choice === 'Cancel Running Build') {
+                            this.cancel();
+                        }
+                    });
+                return undefined;
+            }
+            vscode.window.setStatusBarMessage(`$(watch) ${title}: queued behind the running build`, 3000);
+        }
+
+        this.pending++;
+        const result = this.tail.then(() => {
+            this.pending--;
+            return this.runNow(title, task);
+        });
+        // A failed build must not block the ones queued behind it.
+        this.tail = result.catch(() => undefined);
+        return result;
+    }
+
+    /** Cancels the running build, if any. Queued builds still run. */
+    cancel(): void {
+        this.running?.cancel();
+    }
+
+    private runNow<T>(
+        title: string,
+        task: (progress: vscode.Progress<{ message?: string }>, token: vscode.CancellationToken) => Promise<T>
+    ): Thenable<T> {
+        const source = new vscode.CancellationTokenSource();
+        this.running = source;
+        return vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+            async (progress, progressToken) => {
+                const sub = progressToken.onCancellationRequested(() => source.cancel());
+                try {
+                    return await task(progress, source.token);
+                } finally {
+                    sub.dispose();
+                    source.dispose();
+                    this.running = undefined;
+                }
+            }
+        );
+    }
+}
+
+let supervisor: BuildSupervisor | undefined;
+
+export function getBuildSupervisor(): BuildSupervisor {
+    if (!supervisor) {
+        supervisor = new BuildSupervisor();
+    }
+    return supervisor;
+}
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+
+/**
+ * Minimal ELF reader for the kernel image: section headers and the symbol
+ * table, which is all the size report and symbol lookups need. Handles the
+ * little-endian ELF64 images Cosmos produces for x64 and ARM64. Addresses
+ * are bigint (higher-half kernels live above 2^53); sizes and file offsets
+ * are plain numbers.
+ */
+
+export const EM_X86_64 = 62;
+export const EM_AARCH64 = 183;
+
+export const SHT_SYMTAB = 2;
+export const SHT_NOBITS = 8;
+export const SHF_ALLOC = 0x2;
+
+export const STT_OBJECT = 1;
+export const STT_FUNC = 2;
+
+export interface ElfSection {
+    index: number;
+    name: string;
+    type: number;
+    flags: number;
+    addr: bigint;
+    offset: number;
+    size: number;
+    link: number;
+    entsize: number;
+}
+
+export interface ElfSymbol {
+    name: string;
+    value: bigint;
+    size: number;
+    /** STT_* from st_info. */
+    type: number;
+    /** STB_* from st_info. */
+    bind: number;
+    sectionIndex: number;
+}
+
+export interface ElfFile {
+    machine: number;
+    entry: bigint;
+    sections: ElfSection[];
+    symbols: ElfSymbol[];
+}
+
+export class ElfFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ElfFormatError';
+    }
+}
+
+export function readElf(filePath: string): ElfFile {
+    return parseElf(fs.readFileSync(filePath));
+}
+
+export function parseElf(buf: Buffer): ElfFile {
+    if (buf.length < 64 || buf.readUInt32BE(0) !== 0x7f454c46) {
+        throw new ElfFormatError('not an ELF file');
+    }
+    if (buf[4] !== 2) {
+        throw new ElfFormatError('only 64-bit ELF images are supported');
+    }
+    if (buf[5] !== 1) {
+        throw new ElfFormatError('only little-endian ELF images are supported');
+    }
+
+    const machine = buf.readUInt16LE(18);
+    const entry = buf.readBigUInt64LE(24);
+    const shoff = Number(buf.readBigUInt64LE(40));
+    const shentsize = buf.readUInt16LE(58);
+    const shnum = buf.readUInt16LE(60);
+    const shstrndx = buf.readUInt16LE(62);
+    if (shoff === 0 || shnum === 0) {
+        return { machine, entry, sections: [], symbols: [] };
+    }
+    if (shoff + shnum * shentsize > buf.length) {
+        throw new ElfFormatError('section header table is truncated');
+    }
+
+    const sections: ElfSection[] = [];
+    const nameOffsets: number[] = [];
+    for (let i = 0; i < shnum; i++) {
+        const off = shoff + i * shentsize;
+        nameOffsets.push(buf.readUInt32LE(off));
+        sections.push({
+            index: i,
+            name: '',
+            type: buf.readUInt32LE(off + 4),
+            flags: Number(buf.readBigUInt64LE(off + 8)),
+            addr: buf.readBigUInt64LE(off + 16),
+            offset: Number(buf.readBigUInt64LE(off + 24)),
+            size: Number(buf.readBigUInt64LE(off + 32)),
+            link: buf.readUInt32LE(off + 40),
+            entsize: Number(buf.readBigUInt64LE(off + 56))
+        });
+    }
+    const shstr = sections[shstrndx];
+    if (shstr) {
+        sections.forEach((s, i) => {
+            s.name = readCString(buf, shstr.offset + nameOffsets[i]);
+        });
+    }
+
+    const symbols: ElfSymbol[] = [];
+    for (const symtab of sections.filter(s => s.type === SHT_SYMTAB)) {
+        const strtab = sections[symtab.link];
+        const entsize = symtab.entsize || 24;
+        const count = Math.floor(symtab.size / entsize);
+        // Entry 0 is the reserved null symbol.
+        for (let i = 1; i < count; i++) {
+            const off = symtab.offset + i * entsize;
+            if (off + 24 > buf.length) {
+                break;
+            }
+            const info = buf[off + 4];
+            symbols.push({
+                name: strtab ? readCString(buf, strtab.offset + buf.readUInt32LE(off)) : '',
+                type: info & 0xf,
+                bind: info >> 4,
+                sectionIndex: buf.readUInt16LE(off + 6),
+                value: buf.readBigUInt64LE(off + 8),
+                size: Number(buf.readBigUInt64LE(off + 16))
+            });
+        }
+    }
+
+    return { machine, entry, sections, symbols };
+}
+
+function readCString(buf: Buffer, off: number): string {
+    if (off < 0 || off >= buf.length) {
+        return '';
+    }
+    const end = buf.indexOf(0, off);
+    return buf.toString('latin1', off, end === -1 ? buf.length : end);
+}
@@ -6,19 +6,21 @@ import * as path from 'path';
  * artifacts directory (`<workspace>/artifacts/bin/<proj>/debug_linux-<arch>/`),
  * but a few older project layouts still drop the binary under
  * `<projectDir>/bin/Debug/net10.0/linux-<arch>/`. Try the modern path first,
- * fall back to the legacy one. Returns undefined when no ELF is found.
+ * fall back to the legacy one. `configuration` defaults to Debug. Returns
+ * undefined when no ELF is found.
  */
 export function resolveKernelElf(
     workspaceFolder: string,
     projectDir: string,
     projectName: string,
-    arch: string
+    arch: string,
+    configuration: string = 'Debug'
 ): string | undefined {
     const candidates = [
         // Modern: Cosmos.Sdk-routed artifacts directory.
-        path.join(workspaceFolder, 'artifacts', 'bin', projectName, `debug_linux-${arch}`),
+        path.join(workspaceFolder, 'artifacts', 'bin', projectName, `${configuration.toLowerCase()}_linux-${arch}`),
         // Legacy: plain dotnet output under the project.
-        path.join(projectDir, 'bin', 'Debug', 'net10.0', `linux-${arch}`)
+        path.join(projectDir, 'bin', configuration, 'net10.0', `linux-${arch}`)
     ];
 
     for (const dir of candidates) {
@@ -42,3 +44,20 @@ export function resolveKernelElf(
 
     return undefined;
 }
+
+/**
+ * Resolves the bootable ISO `cosmos build` leaves in `<projectDir>/output-<arch>/`.
+ * Returns undefined when the directory or the ISO is missing.
+ */
+export function resolveKernelIso(projectDir: string, arch: string): string | undefined {
+    const outputDir = path.join(projectDir, `output-${arch}`);
+    if (!fs.existsSync(outputDir)) {
+        return undefined;
+    }
+    try {
+        const isoFiles = fs.readdirSync(outputDir).filter(f => f.endsWith('.iso'));
+        return isoFiles.length > 0 ? path.join(outputDir, isoFiles[0]) : undefined;
+    } catch {
+        return undefined;
+    }
+}
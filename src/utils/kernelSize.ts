@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { readElf, ElfFile, SHF_ALLOC, SHT_NOBITS, STT_FUNC, STT_OBJECT } from './elf';
+import { demangleNativeAotSymbol, managedTypeName } from './nativeAotNames';
+
+/** Bumped when the JSON layout changes, so CI comparisons can tell. */
+export const KERNEL_SIZE_REPORT_VERSION = 1;
+
+const REPORT_FILE = 'kernel-size.json';
+const PREVIOUS_REPORT_FILE = 'kernel-size.previous.json';
+
+const TOP_SYMBOLS = 100;
+const TOP_NAMESPACES = 50;
+// Kept long so a type that shrinks out of the top still compares correctly.
+const TOP_TYPES = 500;
+const TOP_CHANGES = 50;
+
+export interface SectionSize {
+    name: string;
+    size: number;
+    /** False for .bss-style sections that take memory but no file space. */
+    inFile: boolean;
+}
+
+export interface SizeGroup {
+    name: string;
+    size: number;
+    symbols: number;
+}
+
+export interface SymbolSize {
+    name: string;
+    demangled: string;
+    section: string;
+    size: number;
+}
+
+export interface KernelSizeReport {
+    version: number;
+    project: string;
+    arch: string;
+    configuration: string;
+    generatedAt: string;
+    elfPath: string;
+    elfSize: number;
+    isoPath?: string;
+    isoSize?: number;
+    /** .text / .rodata / .data / .bss, each summing its prefixed sections. */
+    totals: { text: number; rodata: number; data: number; bss: number };
+    sections: SectionSize[];
+    namespaces: SizeGroup[];
+    types: SizeGroup[];
+    symbols: SymbolSize[];
+}
+
+export interface SizeDelta {
+    name: string;
+    previous: number;
+    current: number;
+    delta: number;
+}
+
+export interface KernelSizeComparison {
+    previousGeneratedAt: string;
+    elf: SizeDelta;
+    iso?: SizeDelta;
+    totals: SizeDelta[];
+    /** Types whose size changed, largest change first. */
+    types: SizeDelta[];
+}
+
+/**
+ * Builds a size report from the kernel ELF: allocated sections, the largest
+ * symbols, and the same symbols grouped by managed namespace and type.
+ */
+export function buildKernelSizeReport(
+    elfPath: string,
+    isoPath: string | undefined,
+    meta: { project: string; arch: string; configuration: string }
+): KernelSizeReport {
+    const elf = readElf(elfPath);
+
+    const sections: SectionSize[] = elf.sections
+        .filter(s => (s.flags & SHF_ALLOC) !== 0 && s.size > 0)
+        .map(s => ({ name: s.name, size: s.size, inFile: s.type !== SHT_NOBITS }))
+        .sort((a, b) => b.size - a.size);
+
+    const totals = { text: 0, rodata: 0, data: 0, bss: 0 };
+    for (const s of sections) {
+        const bucket = sectionBucket(s.name);
+        if (bucket) {
+            totals[bucket] += s.size;
+        }
+    }
+
+    const symbols = sizedSymbols(elf);
+    const namespaces = new Map<string, SizeGroup>();
+    const types = new Map<string, SizeGroup>();
+    const addTo = (map: Map<string, SizeGroup>, key: string, size: number) => {
+        const g = map.get(key) ?? { name: key, size: 0, symbols: 0 };
+        g.size += size;
+        g.symbols++;
+        map.set(key, g);
+    };
+    for (const sym of symbols) {
+        const name = demangleNativeAotSymbol(sym.name);
+        const typeName = managedTypeName(name);
+        if (typeName) {
+            addTo(namespaces, name.namespace || '(global)', sym.size);
+            addTo(types, typeName, sym.size);
+        } else {
+            addTo(namespaces, '(native)', sym.size);
+        }
+    }
+
+    return {
+        version: KERNEL_SIZE_REPORT_VERSION,
+        ...meta,
+        generatedAt: new Date().toISOString(),
+        elfPath,
+        elfSize: fileSize(elfPath) ?? 0,
+        isoPath,
+        isoSize: isoPath ? fileSize(isoPath) : undefined,
+        totals,
+        sections,
+        namespaces: topGroups(namespaces, TOP_NAMESPACES),
+        types: topGroups(types, TOP_TYPES),
+        symbols: symbols
+            .sort((a, b) => b.size - a.size)
+            .slice(0, TOP_SYMBOLS)
+            .map(s => ({
+                name: s.name,
+                demangled: demangleNativeAotSymbol(s.name).display,
+                section: s.section,
+                size: s.size
+            }))
+    };
+}
+
+export function compareKernelSizeReports(previous: KernelSizeReport, current: KernelSizeReport): KernelSizeComparison {
+    const delta = (name: string, prev: number, cur: number): SizeDelta => ({ name, previous: prev, current: cur, delta: cur - prev });
+
+    const prevTypes = new Map(previous.types.map(t => [t.name, t.size]));
+    const curTypes = new Map(current.types.map(t => [t.name, t.size]));
+    const typeNames = new Set([...prevTypes.keys(), ...curTypes.keys()]);
+    const types = [...typeNames]
+        .map(n => delta(n, prevTypes.get(n) ?? 0, curTypes.get(n) ?? 0))
+        .filter(d => d.delta !== 0)
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+        .slice(0, TOP_CHANGES);
+
+    return {
+        previousGeneratedAt: previous.generatedAt,
+        elf: delta('ELF', previous.elfSize, current.elfSize),
+        iso: previous.isoSize !== undefined && current.isoSize !== undefined
+            ? delta('ISO', previous.isoSize, current.isoSize)
+            : undefined,
+        totals: (['text', 'rodata', 'data', 'bss'] as const).map(k => delta(`.${k}`, previous.totals[k], current.totals[k])),
+        types
+    };
+}
+
+/**
+ * Writes the report next to the ISO as `kernel-size.json`, keeping the one it
+ * replaces as `kernel-size.previous.json` for comparison.
+ */
+export function saveKernelSizeReport(outputDir: string, report: KernelSizeReport): void {
+    fs.mkdirSync(outputDir, { recursive: true });
+    const current = path.join(outputDir, REPORT_FILE);
+    if (fs.existsSync(current)) {
+        fs.copyFileSync(current, path.join(outputDir, PREVIOUS_REPORT_FILE));
+    }
+    fs.writeFileSync(current, JSON.stringify(report, null, 2));
+}
+
+/** Loads the saved report pair from `outputDir`; either may be missing. */
+export function loadKernelSizeReports(outputDir: string): { current?: KernelSizeReport; previous?: KernelSizeReport } {
+    return {
+        current: readReport(path.join(outputDir, REPORT_FILE)),
+        previous: readReport(path.join(outputDir, PREVIOUS_REPORT_FILE))
+    };
+}
+
+export function formatBytes(bytes: number): string {
+    const abs = Math.abs(bytes);
+    if (abs >= 1024 * 1024) {
+        return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+    }
+    if (abs >= 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${bytes} B`;
+}
+
+function readReport(file: string): KernelSizeReport | undefined {
+    try {
+        const report = JSON.parse(fs.readFileSync(file, 'utf8')) as KernelSizeReport;
+        return report.version === KERNEL_SIZE_REPORT_VERSION ? report : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function sectionBucket(name: string): keyof KernelSizeReport['totals'] | undefined {
+    if (name.startsWith('.text')) { return 'text'; }
+    if (name.startsWith('.rodata')) { return 'rodata'; }
+    if (name.startsWith('.bss') || name.startsWith('.tbss')) { return 'bss'; }
+    if (name.startsWith('.data') || name.startsWith('.tdata')) { return 'data'; }
+    return undefined;
+}
+
+// NativeAOT leaves st_size 0 on many method and data symbols; for those the
+// size is the distance to the next symbol in the same section.
+function sizedSymbols(elf: ElfFile): { name: string; section: string; size: number }[] {
+    const bySection = new Map<number, { name: string; value: bigint; size: number }[]>();
+    for (const sym of elf.symbols) {
+        if ((sym.type !== STT_FUNC && sym.type !== STT_OBJECT) || !sym.name) {
+            continue;
+        }
+        const section = elf.sections[sym.sectionIndex];
+        if (!section || (section.flags & SHF_ALLOC) === 0) {
+            continue;
+        }
+        const list = bySection.get(sym.sectionIndex) ?? [];
+        list.push({ name: sym.name, value: sym.value, size: sym.size });
+        bySection.set(sym.sectionIndex, list);
+    }
+
+    const out: { name: string; section: string; size: number }[] = [];
+    for (const [index, list] of bySection) {
+        const section = elf.sections[index];
+        const sectionEnd = section.addr + BigInt(section.size);
+        list.sort((a, b) => (a.value < b.value ? -1 : a.value > b.value ? 1 : 0));
+        for (let i = 0; i < list.length; i++) {
+            const sym = list[i];
+            let size = sym.size;
+            if (size === 0) {
+                const next = i + 1 < list.length ? list[i + 1].value : sectionEnd;
+                size = next > sym.value ? Number(next - sym.value) : 0;
+            }
+            if (size > 0) {
+                out.push({ name: sym.name, section: section.name, size });
+            }
+        }
+    }
+    return out;
+}
+
+function topGroups(map: Map<string, SizeGroup>, limit: number): SizeGroup[] {
+    return [...map.values()].sort((a, b) => b.size - a.size).slice(0, limit);
+}
+
+function fileSize(file: string): number | undefined {
+    try {
+        return fs.statSync(file).size;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * Best-effort demangling of the symbol names ILC gives managed code and data
+ * in the kernel ELF:
+ *
+ *   Cosmos_Kernel_Core_Cosmos_Kernel_Core_Runtime_Heap__Alloc
+ *     └ assembly ┘ └──── namespace + type ────┘    └ member
+ *   __NONGCSTATICSCosmos_Kernel_Core_Cosmos_Kernel_Core_Runtime_DebugLiveSnapshot
+ *   S_P_CoreLib_System_String__Concat_0
+ *
+ * The assembly name (dots → underscores) is prefixed to the type's full name,
+ * which usually starts with the same text; that repetition is what separates
+ * the two. `S_P_` abbreviates `System.Private.`. Underscores inside real
+ * identifiers are indistinguishable from separators, so the namespace split
+ * is a heuristic — good for grouping, not for round-tripping.
+ */
+
+export type ManagedSymbolKind =
+    | 'method'
+    | 'nonGcStatics'
+    | 'gcStatics'
+    | 'threadStatics'
+    | 'methodTable'
+    | 'native';
+
+export interface ManagedSymbolName {
+    kind: ManagedSymbolKind;
+    /** Dotted assembly name, e.g. `Cosmos.Kernel.Core`. Absent for native symbols. */
+    assembly?: string;
+    /** Dotted namespace of the type, '' for the global namespace. */
+    namespace: string;
+    /** Type name without namespace. */
+    type?: string;
+    /** Method (or overload-suffixed method) name. */
+    member?: string;
+    /** Readable rendering, e.g. `Cosmos.Kernel.Core.Runtime.Heap.Alloc`. */
+    display: string;
+}
+
+const STATICS_PREFIXES: [string, ManagedSymbolKind][] = [
+    ['__NONGCSTATICS', 'nonGcStatics'],
+    ['__GCSTATICS', 'gcStatics'],
+    ['__THREADSTATICS', 'threadStatics']
+];
+
+// Abbreviated assembly prefixes ILC uses for the runtime's own assemblies.
+const KNOWN_ASSEMBLY_PREFIXES: [string, string][] = [
+    ['S_P_CoreLib_', 'System.Private.CoreLib'],
+    ['S_P_TypeLoader_', 'System.Private.TypeLoader'],
+    ['S_P_Reflection_Execution_', 'System.Private.Reflection.Execution'],
+    ['S_P_StackTraceMetadata_', 'System.Private.StackTraceMetadata']
+];
+
+export function demangleNativeAotSymbol(symbol: string): ManagedSymbolName {
+    let kind: ManagedSymbolKind = 'method';
+    let rest = symbol;
+
+    const statics = STATICS_PREFIXES.find(([prefix]) => rest.startsWith(prefix));
+    if (statics) {
+        kind = statics[1];
+        rest = rest.slice(statics[0].length);
+    } else if (rest.startsWith('_ZTV')) {
+        // MethodTable (vtable) symbol for the type.
+        kind = 'methodTable';
+        rest = rest.slice(4);
+    }
+
+    // "Type__Member": the first "__" past the start separates them.
+    let typePart = rest;
+    let member: string | undefined;
+    const sep = rest.indexOf('__', 1);
+    if (kind === 'method' && sep > 0) {
+        typePart = rest.slice(0, sep);
+        member = rest.slice(sep + 2) || undefined;
+    }
+
+    const split = splitAssembly(typePart);
+    if (!split) {
+        return { kind: 'native', namespace: '', display: symbol };
+    }
+
+    const typeName = split.typeName.replace(/_/g, '.');
+    const lastDot = typeName.lastIndexOf('.');
+    const namespace = lastDot > 0 ? typeName.slice(0, lastDot) : '';
+    const type = lastDot > 0 ? typeName.slice(lastDot + 1) : typeName;
+
+    let display = typeName;
+    if (member) {
+        display += `.${member}`;
+    } else if (kind !== 'method') {
+        display += ` (${describeKind(kind)})`;
+    }
+    return { kind, assembly: split.assembly, namespace, type, member, display };
+}
+
+/** Full dotted type name, e.g. `Cosmos.Kernel.Core.Runtime.Heap`, when managed. */
+export function managedTypeName(name: ManagedSymbolName): string | undefined {
+    if (name.kind === 'native' || !name.type) {
+        return undefined;
+    }
+    return name.namespace ? `${name.namespace}.${name.type}` : name.type;
+}
+
+function splitAssembly(typePart: string): { assembly: string; typeName: string } | undefined {
+    for (const [prefix, assembly] of KNOWN_ASSEMBLY_PREFIXES) {
+        if (typePart.startsWith(prefix) && typePart.length > prefix.length) {
+            return { assembly, typeName: typePart.slice(prefix.length) };
+        }
+    }
+
+    // "<asm>_<asm>_..." — find the longest underscore-delimited prefix that
+    // is immediately repeated.
+    let best: { assembly: string; typeName: string } | undefined;
+    for (let i = typePart.indexOf('_'); i > 0; i = typePart.indexOf('_', i + 1)) {
+        const prefix = typePart.slice(0, i);
+        const remainder = typePart.slice(i + 1);
+        if (remainder.startsWith(`${prefix}_`) || remainder === prefix) {
+            best = { assembly: prefix.replace(/_/g, '.'), typeName: remainder };
+        }
+    }
+    return best;
+}
+
+function describeKind(kind: ManagedSymbolKind): string {
+    switch (kind) {
+        case 'nonGcStatics': return 'static fields';
+        case 'gcStatics': return 'GC static fields';
+        case 'threadStatics': return 'thread static fields';
+        case 'methodTable': return 'MethodTable';
+        default: return kind;
+    }
+}
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { QemuConfig } from './project';
+import { PortForward, parsePortForwards } from './qemuOptions';
+
+/** The networking setup of the most recently launched kernel. */
+export interface NetworkSession {
+    project: string;
+    arch: string;
+    forwards: PortForward[];
+    /** pcap written by QEMU's filter-dump, when capture is on. */
+    capturePath?: string;
+    startedAt: number;
+}
+
+let current: NetworkSession | undefined;
+const changeEmitter = new vscode.EventEmitter<NetworkSession | undefined>();
+
+/** Fires when a new kernel launch replaces the current network session. */
+export const onDidChangeNetworkSession = changeEmitter.event;
+
+export function getNetworkSession(): NetworkSession | undefined {
+    return current;
+}
+
+/**
+ * Records the forwards and capture file of a kernel that is about to boot.
+ * Called by Run, Debug and the run task once the launch arguments are built
+ * (so the port forwards are known to be valid).
+ */
+export function beginNetworkSession(project: string, arch: string, qemu: QemuConfig, capturePath?: string): void {
+    current = {
+        project,
+        arch,
+        forwards: qemu.enableNetwork ? parsePortForwards(qemu.networkPorts) : [],
+        capturePath,
+        startedAt: Date.now()
+    };
+    changeEmitter.fire(current);
+}
+
+/**
+ * Path for a new capture file: `captures-<arch>/<timestamp>.pcap` beside the
+ * project's `output-<arch>` directory, so rebuilding or cleaning the output
+ * never deletes recorded traffic. The directory is created unless `create`
+ * is false (previewing the command line).
+ */
+export function newCapturePath(projectDir: string, arch: string, create = true): string {
+    const dir = path.join(projectDir, `captures-${arch}`);
+    if (create) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').replace('Z', '');
+    return path.join(dir, `${stamp}.pcap`);
+}
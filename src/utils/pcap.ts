@@ -0,0 +1,262 @@
+// Reader for the classic libpcap files QEMU's filter-dump writes, plus a
+// one-line decoder for the protocols a hobby kernel's network stack speaks
+// first: Ethernet, ARP, IPv4, ICMP, UDP, TCP and DHCP.
+
+export class PcapFormatError extends Error { }
+
+export interface PcapRecord {
+    /** Capture time in milliseconds since the epoch. */
+    timestampMs: number;
+    /** Bytes stored in the file (may be shorter than the packet on the wire). */
+    data: Buffer;
+    originalLength: number;
+}
+
+export interface PcapFile {
+    linkType: number;
+    records: PcapRecord[];
+    /** The file ended mid-record — normal while QEMU is still writing. */
+    truncated: boolean;
+}
+
+export const LINKTYPE_ETHERNET = 1;
+
+const MAGIC_MICROS = 0xa1b2c3d4;
+const MAGIC_NANOS = 0xa1b23c4d;
+const GLOBAL_HEADER_SIZE = 24;
+const RECORD_HEADER_SIZE = 16;
+
+export function parsePcap(buf: Buffer): PcapFile {
+    if (buf.length < GLOBAL_HEADER_SIZE) {
+        throw new PcapFormatError('File too short for a pcap header');
+    }
+    let littleEndian: boolean;
+    let nanos: boolean;
+    const le = buf.readUInt32LE(0);
+    const be = buf.readUInt32BE(0);
+    if (le === MAGIC_MICROS || le === MAGIC_NANOS) {
+        littleEndian = true;
+        nanos = le === MAGIC_NANOS;
+    } else if (be === MAGIC_MICROS || be === MAGIC_NANOS) {
+        littleEndian = false;
+        nanos = be === MAGIC_NANOS;
+    } else {
+        throw new PcapFormatError('Not a pcap file (bad magic)');
+    }
+    const u32 = (off: number) => (littleEndian ? buf.readUInt32LE(off) : buf.readUInt32BE(off));
+
+    const linkType = u32(20);
+    const records: PcapRecord[] = [];
+    let off = GLOBAL_HEADER_SIZE;
+    while (off + RECORD_HEADER_SIZE <= buf.length) {
+        const seconds = u32(off);
+        const fraction = u32(off + 4);
+        const capturedLength = u32(off + 8);
+        const originalLength = u32(off + 12);
+        const start = off + RECORD_HEADER_SIZE;
+        if (start + capturedLength > buf.length) {
+            break;
+        }
+        records.push({
+            timestampMs: seconds * 1000 + (nanos ? fraction / 1e6 : fraction / 1e3),
+            data: buf.subarray(start, start + capturedLength),
+            originalLength
+        });
+        off = start + capturedLength;
+    }
+    return { linkType, records, truncated: off < buf.length };
+}
+
+export interface PacketSummary {
+    /** Highest protocol recognized, e.g. "TCP", "DHCP", "ARP". */
+    protocol: string;
+    source: string;
+    destination: string;
+    info: string;
+}
+
+/** Decodes an Ethernet frame into a Wireshark-style summary line. */
+export function decodeEthernetFrame(frame: Buffer): PacketSummary {
+    if (frame.length < 14) {
+        return { protocol: 'Ethernet', source: '?', destination: '?', info: `Truncated frame (${frame.length} bytes)` };
+    }
+    const dstMac = formatMac(frame, 0);
+    const srcMac = formatMac(frame, 6);
+    let etherType = frame.readUInt16BE(12);
+    let payload = frame.subarray(14);
+    if (etherType === 0x8100 && payload.length >= 4) {
+        etherType = payload.readUInt16BE(2);
+        payload = payload.subarray(4);
+    }
+    switch (etherType) {
+        case 0x0806:
+            return decodeArp(payload, srcMac, dstMac);
+        case 0x0800:
+            return decodeIpv4(payload) ?? { protocol: 'IPv4', source: srcMac, destination: dstMac, info: 'Malformed IPv4 header' };
+        case 0x86dd:
+            return { protocol: 'IPv6', source: srcMac, destination: dstMac, info: `IPv6 (${payload.length} bytes)` };
+        default:
+            return {
+                protocol: 'Ethernet',
+                source: srcMac,
+                destination: dstMac,
+                info: `EtherType 0x${etherType.toString(16).padStart(4, '0')} (${payload.length} bytes)`
+            };
+    }
+}
+
+function decodeArp(p: Buffer, srcMac: string, dstMac: string): PacketSummary {
+    // Only Ethernet/IPv4 ARP (hlen 6, plen 4) is worth spelling out.
+    if (p.length < 28 || p[4] !== 6 || p[5] !== 4) {
+        return { protocol: 'ARP', source: srcMac, destination: dstMac, info: 'ARP' };
+    }
+    const op = p.readUInt16BE(6);
+    const senderMac = formatMac(p, 8);
+    const senderIp = formatIpv4(p, 14);
+    const targetIp = formatIpv4(p, 24);
+    const info = op === 1
+        ? (senderIp === targetIp ? `Gratuitous ARP for ${senderIp}` : `Who has ${targetIp}? Tell ${senderIp}`)
+        : op === 2 ? `${senderIp} is at ${senderMac}` : `Opcode ${op}`;
+    return { protocol: 'ARP', source: senderMac, destination: dstMac, info };
+}
+
+const IP_PROTOCOLS: Record<number, string> = { 1: 'ICMP', 6: 'TCP', 17: 'UDP' };
+
+function decodeIpv4(p: Buffer): PacketSummary | undefined {
+    if (p.length < 20 || p[0] >> 4 !== 4) {
+        return undefined;
+    }
+    const headerLength = (p[0] & 0x0f) * 4;
+    const totalLength = p.readUInt16BE(2);
+    const protocol = p[9];
+    const src = formatIpv4(p, 12);
+    const dst = formatIpv4(p, 16);
+    if (headerLength < 20 || p.length < headerLength) {
+        return undefined;
+    }
+    const fragmentOffset = p.readUInt16BE(6) & 0x1fff;
+    const body = p.subarray(headerLength, Math.max(headerLength, Math.min(p.length, totalLength)));
+    if (fragmentOffset !== 0) {
+        return { protocol: 'IPv4', source: src, destination: dst, info: `Fragment at offset ${fragmentOffset * 8}` };
+    }
+    switch (protocol) {
+        case 1: return decodeIcmp(body, src, dst);
+        case 6: return decodeTcp(body, src, dst);
+        case 17: return decodeUdp(body, src, dst);
+        default:
+            return {
+                protocol: 'IPv4',
+                source: src,
+                destination: dst,
+                info: `${IP_PROTOCOLS[protocol] ?? `Protocol ${protocol}`} (${body.length} bytes)`
+            };
+    }
+}
+
+const ICMP_TYPES: Record<number, string> = {
+    0: 'Echo reply', 3: 'Destination unreachable', 5: 'Redirect', 8: 'Echo request', 11: 'Time exceeded'
+};
+
+function decodeIcmp(p: Buffer, src: string, dst: string): PacketSummary {
+    if (p.length < 4) {
+        return { protocol: 'ICMP', source: src, destination: dst, info: 'Truncated' };
+    }
+    let info = ICMP_TYPES[p[0]] ?? `Type ${p[0]} code ${p[1]}`;
+    if ((p[0] === 0 || p[0] === 8) && p.length >= 8) {
+        info += ` id=0x${p.readUInt16BE(4).toString(16).padStart(4, '0')} seq=${p.readUInt16BE(6)}`;
+    }
+    return { protocol: 'ICMP', source: src, destination: dst, info };
+}
+
+const TCP_FLAGS: [number, string][] = [
+    [0x02, 'SYN'], [0x10, 'ACK'], [0x01, 'FIN'], [0x04, 'RST'], [0x08, 'PSH'], [0x20, 'URG']
+];
+
+function decodeTcp(p: Buffer, src: string, dst: string): PacketSummary {
+    if (p.length < 20) {
+        return { protocol: 'TCP', source: src, destination: dst, info: 'Truncated header' };
+    }
+    const sport = p.readUInt16BE(0);
+    const dport = p.readUInt16BE(2);
+    const seq = p.readUInt32BE(4);
+    const ack = p.readUInt32BE(8);
+    const dataOffset = (p[12] >> 4) * 4;
+    const flags = p[13];
+    const window = p.readUInt16BE(14);
+    const names = TCP_FLAGS.filter(([bit]) => flags & bit).map(([, name]) => name);
+    const len = Math.max(0, p.length - dataOffset);
+    let info = `${sport} → ${dport} [${names.join(', ')}] Seq=${seq}`;
+    if (flags & 0x10) {
+        info += ` Ack=${ack}`;
+    }
+    info += ` Win=${window} Len=${len}`;
+    return { protocol: 'TCP', source: `${src}:${sport}`, destination: `${dst}:${dport}`, info };
+}
+
+function decodeUdp(p: Buffer, src: string, dst: string): PacketSummary {
+    if (p.length < 8) {
+        return { protocol: 'UDP', source: src, destination: dst, info: 'Truncated header' };
+    }
+    const sport = p.readUInt16BE(0);
+    const dport = p.readUInt16BE(2);
+    const payload = p.subarray(8, Math.max(8, Math.min(p.length, p.readUInt16BE(4))));
+    const source = `${src}:${sport}`;
+    const destination = `${dst}:${dport}`;
+    if ((sport === 67 || sport === 68) && (dport === 67 || dport === 68)) {
+        const dhcp = decodeDhcp(payload);
+        if (dhcp) {
+            return { protocol: 'DHCP', source, destination, info: dhcp };
+        }
+    }
+    return { protocol: 'UDP', source, destination, info: `${sport} → ${dport} Len=${payload.length}` };
+}
+
+const DHCP_MESSAGE_TYPES: Record<number, string> = {
+    1: 'Discover', 2: 'Offer', 3: 'Request', 4: 'Decline', 5: 'ACK', 6: 'NAK', 7: 'Release', 8: 'Inform'
+};
+const DHCP_MAGIC_COOKIE = 0x63825363;
+
+function decodeDhcp(p: Buffer): string | undefined {
+    if (p.length < 240 || p.readUInt32BE(236) !== DHCP_MAGIC_COOKIE) {
+        return undefined;
+    }
+    const xid = p.readUInt32BE(4);
+    const yiaddr = formatIpv4(p, 16);
+    let messageType: number | undefined;
+    for (let off = 240; off < p.length;) {
+        const code = p[off];
+        if (code === 0) {
+            off++;
+            continue;
+        }
+        if (code === 255 || off + 1 >= p.length) {
+            break;
+        }
+        const len = p[off + 1];
+        if (code === 53 && len >= 1 && off + 2 < p.length) {
+            messageType = p[off + 2];
+            break;
+        }
+        off += 2 + len;
+    }
+    const name = messageType !== undefined
+        ? DHCP_MESSAGE_TYPES[messageType] ?? `Type ${messageType}`
+        : 'BOOTP';
+    let info = `DHCP ${name} - Transaction ID 0x${xid.toString(16).padStart(8, '0')}`;
+    if (yiaddr !== '0.0.0.0') {
+        info += ` (your IP ${yiaddr})`;
+    }
+    return info;
+}
+
+function formatMac(buf: Buffer, off: number): string {
+    const bytes: string[] = [];
+    for (let i = 0; i < 6; i++) {
+        bytes.push(buf[off + i].toString(16).padStart(2, '0'));
+    }
+    return bytes.join(':');
+}
+
+function formatIpv4(buf: Buffer, off: number): string {
+    return `${buf[off]}.${buf[off + 1]}.${buf[off + 2]}.${buf[off + 3]}`;
+}
@@ -19,3 +19,53 @@ export function isPortInUse(port: number, host: string = '127.0.0.1'): Promise<b
         socket.connect(port, host);
     });
 }
+
+/**
+ * Asks the OS for a free loopback TCP port by binding port 0. The port is
+ * released before returning, so there is a small window in which another
+ * process could take it — fine for handing to QEMU a moment later.
+ */
+export function findFreePort(host: string = '127.0.0.1'): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+        const server = net.createServer();
+        server.unref();
+        server.once('error', reject);
+        server.listen(0, host, () => {
+            const address = server.address();
+            const port = typeof address === 'object' && address ? address.port : 0;
+            server.close(() => (port ? resolve(port) : reject(new Error('no free port'))));
+        });
+    });
+}
+
+// Ports handed to debug sessions that are still starting or running. QEMU
+// may not be listening on them yet, so isPortInUse alone could hand the same
+// port to two sessions launched together.
+const allocatedPorts = new Set<number>();
+
+/**
+ * Picks a port for a new session: `preferred` when it's free (so the first
+ * session keeps the well-known port), otherwise one the OS reports free.
+ * Give it back with releasePort() when the session ends.
+ */
+export async function allocatePort(preferred?: number, host: string = '127.0.0.1'): Promise<number> {
+    if (preferred !== undefined && !allocatedPorts.has(preferred)) {
+        allocatedPorts.add(preferred);
+        if (!await isPortInUse(preferred, host)) {
+            return preferred;
+        }
+        allocatedPorts.delete(preferred);
+    }
+    for (let attempt = 0; attempt < 10; attempt++) {
+        const port = await findFreePort(host);
+        if (!allocatedPorts.has(port)) {
+            allocatedPorts.add(port);
+            return port;
+        }
+    }
+    throw new Error('no free port');
+}
+
+export function releasePort(port: number): void {
+    allocatedPorts.delete(port);
+}
@@ -0,0 +1,25 @@
+import { ChildProcess, spawn } from 'child_process';
+
+/**
+ * Kills a process together with everything it started (dotnet build nodes,
+ * ILC, lld, QEMU...). On POSIX the process must have been spawned with
+ * `detached: true` so it leads its own process group; on Windows the tree is
+ * walked by `taskkill /T`.
+ */
+export function killProcessTree(proc: ChildProcess): void {
+    if (proc.exitCode !== null || proc.signalCode !== null) {
+        return;
+    }
+    try {
+        if (!proc.pid) {
+            proc.kill();
+        } else if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(proc.pid), '/T', '/F'], { stdio: 'ignore', windowsHide: true });
+        } else {
+            process.kill(-proc.pid, 'SIGTERM');
+        }
+    } catch {
+        // Group already gone (or never formed) — fall back to the direct child.
+        try { proc.kill(); } catch { /* already gone */ }
+    }
+}
@@ -45,6 +45,20 @@ export function updateCosmosProjectContext() {
     vscode.commands.executeCommand('setContext', 'cosmos:isCosmosProject', isCosmos);
 }
 
+// Read architecture from .cosmos/config.json
+export function readTargetArch(projectDir: string): string {
+    const configPath = path.join(projectDir, '.cosmos', 'config.json');
+    if (fs.existsSync(configPath)) {
+        try {
+            const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+            if (config.targetArch) {
+                return config.targetArch;
+            }
+        } catch { } // Ignore errors parsing config file
+    }
+    return 'x64';
+}
+
 export function getProjectInfo(): { name: string; arch: string; csproj: string } | null {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders) return null;
@@ -56,23 +70,9 @@ export function getProjectInfo(): { name: string; arch: string; csproj: string }
             try {
                 const content = fs.readFileSync(csproj, 'utf8');
                 if (content.includes('Cosmos.Sdk') || content.includes('Cosmos.Kernel')) {
-                    const projectDir = path.dirname(csproj);
-
-                    // Read architecture from .cosmos/config.json
-                    let arch = 'x64';
-                    const configPath = path.join(projectDir, '.cosmos', 'config.json');
-                    if (fs.existsSync(configPath)) {
-                        try {
-                            const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-                            if (config.targetArch) {
-                                arch = config.targetArch;
-                            }
-                        } catch { } // Ignore errors parsing config file
-                    }
-
                     return {
                         name: path.basename(csproj, '.csproj'),
-                        arch: arch,
+                        arch: readTargetArch(path.dirname(csproj)),
                         csproj: csproj
                     };
                 }
@@ -95,8 +95,17 @@ export interface QemuConfig {
     memory: string;
     machineType: string;
     cpuModel: string;
+    // Number of vCPUs (-smp). 1 keeps the kernel uniprocessor.
+    cpuCount: number;
+    // QEMU user-mode networking with the host forwards in networkPorts:
+    // comma separated `[tcp|udp:]HOST[:GUEST]` entries.
     enableNetwork: boolean;
     networkPorts: string;
+    // Record the guest NIC's traffic to a pcap file per session
+    // (captures-<arch>/ next to output-<arch>/), shown in the Network view.
+    capturePackets: boolean;
+    // Where the guest UART goes: 'stdio' (Output panel), 'terminal'
+    // (interactive VS Code terminal over a socket chardev) or 'none'.
     serialMode: string;
     // QEMU NIC model exposed to the guest, or 'none' for no network card.
     networkCard: string;
@@ -130,13 +139,19 @@ export interface ProjectProperties {
     qemu: QemuConfig;
 }
 
+// QEMU's q35 and virt machines both accept far more; past this the kernel's
+// per-CPU tables are the limit.
+export const MAX_CPU_COUNT = 16;
+
 export function getDefaultQemuConfig(arch: string): QemuConfig {
     return {
         memory: '512M',
         machineType: arch === 'arm64' ? 'virt' : 'q35',
         cpuModel: arch === 'arm64' ? 'cortex-a72' : 'max',
+        cpuCount: 1,
         enableNetwork: false,
         networkPorts: '5555',
+        capturePackets: false,
         serialMode: 'stdio',
         networkCard: 'none',
         // x64 gets PS/2 from the chipset; arm64 virt needs virtio-input devices.
@@ -178,6 +193,8 @@ export function loadQemuConfig(projectDir: string, arch: string): QemuConfig {
     const x64Mice = ['ps2', 'none', 'virtio-mouse-pci'];
     const arm64Mice = ['virtio-mouse-device', 'none'];
 
+    const serialModes = ['stdio', 'terminal', 'none'];
+
     try {
         if (fs.existsSync(configPath)) {
             const content = fs.readFileSync(configPath, 'utf8');
@@ -198,6 +215,13 @@ export function loadQemuConfig(projectDir: string, arch: string): QemuConfig {
                     }));
             }
 
+            if (!serialModes.includes(merged.serialMode)) {
+                merged.serialMode = defaults.serialMode;
+            }
+            if (!Number.isInteger(merged.cpuCount) || merged.cpuCount < 1 || merged.cpuCount > MAX_CPU_COUNT) {
+                merged.cpuCount = defaults.cpuCount;
+            }
+
             // Validate machine type matches architecture
             if (arch === 'arm64') {
                 if (!arm64MachineTypes.includes(merged.machineType)) {
@@ -284,17 +308,7 @@ export function parseProjectProperties(csprojPath: string): ProjectProperties {
         }
     }
 
-    // Read architecture from .cosmos/config.json
-    let targetArch = 'x64';
-    const configPath = path.join(projectDir, '.cosmos', 'config.json');
-    if (fs.existsSync(configPath)) {
-        try {
-            const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-            if (config.targetArch) {
-                targetArch = config.targetArch;
-            }
-        } catch { } // Ignore errors parsing config file
-    }
+    const targetArch = readTargetArch(projectDir);
 
     return {
         name,
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { DiskConfig } from './project';
+import { DiskConfig, ProjectProperties, getDefaultQemuConfig } from './project';
+import { serialChardevArgs } from './serialTerminal';
 
 // Parse memory strings like "512", "512M", "1G" into MB.
 // Used by run/debug to translate the project's qemu.memory string into the
@@ -48,6 +49,11 @@ export function buildCpuArgs(cpuModel: string | undefined): string[] {
     return ['--cpu', cpuModel.trim()];
 }
 
+// QEMU -smp for more than one vCPU; the launcher has no option for it.
+export function buildSmpArgs(cpuCount: number | undefined): string[] {
+    return cpuCount !== undefined && cpuCount > 1 ? ['-smp', String(cpuCount)] : [];
+}
+
 // Build the `cosmos run --nic <model>` argument from the configured card.
 // 'none' is passed through explicitly so QEMU's default NIC is disabled — the
 // whole point of the selector. An empty/absent value yields no args, leaving
@@ -78,11 +84,13 @@ export function buildInputArgs(keyboard: string | undefined, mouse: string | und
 // arguments, creating any image that doesn't exist yet as a sparse file of the
 // requested size. Paths are resolved against the project directory; existing
 // images are never resized. Rows without a path are skipped. Throws on a bad
-// size or a failed file creation so the caller can surface it.
+// size or a failed file creation so the caller can surface it. With `dryRun`
+// nothing is created — used to preview the command line.
 export function prepareDiskArgs(
     projectDir: string,
     disks: DiskConfig[] | undefined,
-    log?: (message: string) => void
+    log?: (message: string) => void,
+    dryRun = false
 ): string[] {
     const args: string[] = [];
     if (!disks) {
@@ -98,7 +106,7 @@ export function prepareDiskArgs(
             ? disk.path
             : path.join(projectDir, disk.path);
 
-        if (!fs.existsSync(absPath)) {
+        if (!dryRun && !fs.existsSync(absPath)) {
             const sizeStr = disk.size && disk.size.trim() ? disk.size : '256M';
             const bytes = parseSizeBytes(sizeStr);
             if (bytes === null || bytes <= 0) {
@@ -119,3 +127,233 @@ export function prepareDiskArgs(
 
     return args;
 }
+
+// Split a user-typed argument string the way a POSIX shell would, without
+// expanding anything: whitespace separates words, single quotes are literal,
+// double quotes allow \" and \\ escapes, and a backslash outside quotes
+// escapes the next character. Throws on an unterminated quote so a typo in
+// the Extra QEMU Arguments field doesn't silently become a different argv.
+export function splitShellArgs(input: string | undefined): string[] {
+    const args: string[] = [];
+    if (!input) {
+        return args;
+    }
+    let current = '';
+    let inWord = false;
+    let quote: '"' | "'" | undefined;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (quote === "'") {
+            if (ch === "'") {
+                quote = undefined;
+            } else {
+                current += ch;
+            }
+        } else if (quote === '"') {
+            if (ch === '"') {
+                quote = undefined;
+            } else if (ch === '\\' && (input[i + 1] === '"' || input[i + 1] === '\\')) {
+                current += input[++i];
+            } else {
+                current += ch;
+            }
+        } else if (ch === "'" || ch === '"') {
+            quote = ch;
+            inWord = true;
+        } else if (ch === '\\' && i + 1 < input.length) {
+            current += input[++i];
+            inWord = true;
+        } else if (/\s/.test(ch)) {
+            if (inWord) {
+                args.push(current);
+                current = '';
+                inWord = false;
+            }
+        } else {
+            current += ch;
+            inWord = true;
+        }
+    }
+    if (quote) {
+        throw new Error(`Unterminated ${quote} quote in "${input}"`);
+    }
+    if (inWord) {
+        args.push(current);
+    }
+    return args;
+}
+
+export interface PortForward {
+    protocol: 'tcp' | 'udp';
+    hostPort: number;
+    guestPort: number;
+}
+
+// Parse the Port Forwards field: comma/space separated entries of the form
+// `[tcp|udp:]HOST[:GUEST]` — "5555", "8080:80", "udp:6000", "tcp:2222:22".
+// A bare port forwards the same number on both sides and TCP is the default.
+// Throws on anything else so a bad entry is reported rather than dropped.
+export function parsePortForwards(spec: string | undefined): PortForward[] {
+    const forwards: PortForward[] = [];
+    for (const entry of (spec ?? '').split(/[\s,]+/).filter(e => e)) {
+        const m = entry.match(/^(?:(tcp|udp):)?(\d+)(?::(\d+))?$/i);
+        const hostPort = m ? parseInt(m[2], 10) : NaN;
+        const guestPort = m ? parseInt(m[3] ?? m[2], 10) : NaN;
+        if (!isValidPort(hostPort) || !isValidPort(guestPort)) {
+            throw new Error(`Invalid port forward "${entry}" (expected [tcp|udp:]HOST[:GUEST])`);
+        }
+        const protocol = m?.[1]?.toLowerCase() === 'udp' ? 'udp' : 'tcp';
+        forwards.push({ protocol, hostPort, guestPort });
+    }
+    return forwards;
+}
+
+function isValidPort(port: number): boolean {
+    return Number.isInteger(port) && port > 0 && port < 65536;
+}
+
+// NIC used for port forwards or packet capture when no card is selected — the first card with a kernel driver on each arch.
+function defaultForwardingNic(arch: string): string {
+    return arch === 'arm64' ? 'virtio-net-device' : 'e1000e';
+}
+
+const NETDEV_ID = 'cosmosnet';
+
+// Build the QEMU user-mode network with host forwards and, optionally, a
+// filter-dump pcap capture. cosmos run's --nic only picks a model, so the NIC
+// and its netdev are declared here instead and `--nic none` keeps the
+// launcher from adding a second card.
+export function buildNetworkArgs(
+    arch: string,
+    networkCard: string | undefined,
+    forwards: PortForward[],
+    capturePath?: string
+): { cosmosArgs: string[]; qemuArgs: string[] } {
+    const card = networkCard && networkCard.trim() && networkCard !== 'none'
+        ? networkCard.trim()
+        : defaultForwardingNic(arch);
+    const netdev = ['user', `id=${NETDEV_ID}`,
+        ...forwards.map(f => `hostfwd=${f.protocol}::${f.hostPort}-:${f.guestPort}`)].join(',');
+    const qemuArgs = ['-netdev', netdev, '-device', `${card},netdev=${NETDEV_ID}`];
+    if (capturePath) {
+        // QEMU option values escape a literal comma by doubling it.
+        qemuArgs.push('-object', `filter-dump,id=cosmos-capture,netdev=${NETDEV_ID},file=${capturePath.replace(/,/g, ',,')}`);
+    }
+    return { cosmosArgs: ['--nic', 'none'], qemuArgs };
+}
+
+export const DEFAULT_GDB_PORT = 1234;
+
+// `cosmos run --debug` boots halted with the gdbstub on :1234 (QEMU's -s -S).
+// Any other port is given to QEMU directly so sessions can run side by side.
+export function buildDebugStubArgs(gdbPort: number = DEFAULT_GDB_PORT): { cosmosArgs: string[]; qemuArgs: string[] } {
+    return gdbPort === DEFAULT_GDB_PORT
+        ? { cosmosArgs: ['--debug'], qemuArgs: [] }
+        : { cosmosArgs: [], qemuArgs: ['-S', '-gdb', `tcp::${gdbPort}`] };
+}
+
+export interface LaunchArgsOptions {
+    projectDir: string;
+    props: ProjectProperties;
+    arch: string;
+    isoPath: string;
+    /** Boot halted with the gdb stub (`cosmos run --debug`). */
+    debug?: boolean;
+    /** gdbstub port when `debug` is set; default 1234. */
+    gdbPort?: number;
+    /** Port of the serial socket when serialMode is "terminal"; the caller owns the terminal. */
+    serialPort?: number;
+    /** pcap file for a filter-dump capture of the guest NIC's traffic. */
+    capturePath?: string;
+    /** Additional QEMU arguments, e.g. the debug adapter's -qmp socket. */
+    qemuArgs?: string[];
+    /** Don't create missing disk images (for previewing the command line). */
+    dryRun?: boolean;
+    /** Log a disk that can't be prepared and boot without disks instead of throwing. */
+    skipBadDisks?: boolean;
+    log?: (message: string) => void;
+}
+
+// Assemble the full `cosmos run` command line for a built kernel from the
+// project's properties and every QemuConfig field (see buildMachineArgs).
+// Shared by Run, Debug (and test debug, which goes through the debug
+// adapter) and the `cosmos` run task so they all boot the same machine.
+// Throws on a disk that can't be created (unless skipBadDisks), an invalid
+// port forward or malformed extra arguments.
+export function buildLaunchArgs(opts: LaunchArgsOptions): string[] {
+    const debugStub = opts.debug ? buildDebugStubArgs(opts.gdbPort) : undefined;
+    return [
+        'run', '-a', opts.arch, '--iso', opts.isoPath,
+        ...(debugStub?.cosmosArgs ?? []),
+        ...buildMachineArgs({ ...opts, qemuArgs: [...(debugStub?.qemuArgs ?? []), ...(opts.qemuArgs ?? [])] })
+    ];
+}
+
+export type MachineArgsOptions = Omit<LaunchArgsOptions, 'isoPath' | 'debug' | 'gdbPort'>;
+
+// The machine part of a `cosmos run` command line: graphics, memory,
+// machine, CPU, NIC with port forwards and packet capture, input devices,
+// disks, serial routing and the free-form extra arguments. Launcher options
+// come first; everything for QEMU itself follows a single `--`. Test runs,
+// whose engine builds and boots the ISO itself, get just this part.
+export function buildMachineArgs(opts: MachineArgsOptions): string[] {
+    const { projectDir, props, arch } = opts;
+    const qemu = props.qemu;
+    const defaults = getDefaultQemuConfig(arch);
+
+    const args: string[] = [];
+    if (!props.enableGraphics) {
+        args.push('--headless');
+    }
+    const memoryMb = parseMemoryMb(qemu.memory);
+    if (memoryMb !== null) {
+        args.push('-m', String(memoryMb));
+    }
+    args.push(...buildCpuArgs(qemu.cpuModel));
+
+    const passthrough: string[] = [];
+    // Serial routing leads the passthrough, so the socket is the first
+    // `-serial` QEMU sees and takes the first UART.
+    if (qemu.serialMode === 'terminal' && opts.serialPort !== undefined) {
+        passthrough.push(...serialChardevArgs(opts.serialPort));
+    } else if (qemu.serialMode === 'none') {
+        passthrough.push('-serial', 'none');
+    }
+    if (qemu.machineType && qemu.machineType !== defaults.machineType) {
+        passthrough.push('-machine', qemu.machineType);
+    }
+    passthrough.push(...buildSmpArgs(qemu.cpuCount));
+
+    const forwards = qemu.enableNetwork ? parsePortForwards(qemu.networkPorts) : [];
+    if (forwards.length > 0 || opts.capturePath) {
+        const net = buildNetworkArgs(arch, qemu.networkCard, forwards, opts.capturePath);
+        args.push(...net.cosmosArgs);
+        passthrough.push(...net.qemuArgs);
+    } else {
+        args.push(...buildNicArgs(qemu.networkCard));
+    }
+
+    args.push(...buildInputArgs(qemu.keyboard, qemu.mouse));
+    try {
+        args.push(...prepareDiskArgs(projectDir, qemu.disks, opts.log, opts.dryRun));
+    } catch (err: any) {
+        if (!opts.skipBadDisks) {
+            throw err;
+        }
+        opts.log?.(`disk setup: ${err.message}`);
+    }
+
+    passthrough.push(...(opts.qemuArgs ?? []));
+    passthrough.push(...splitShellArgs(qemu.extraArgs));
+
+    if (passthrough.length > 0) {
+        args.push('--', ...passthrough);
+    }
+    return args;
+}
+
+// Render a command line for display, quoting arguments that need it.
+export function formatCommandLine(command: string, args: string[]): string {
+    const quote = (a: string) => (/^[\w@%+=:,./-]+$/.test(a) ? a : `'${a.replace(/'/g, `'\\''`)}'`);
+    return [command, ...args].map(quote).join(' ');
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+
+const CHARDEV_ID = 'cosmos-serial';
+const CONNECT_RETRY_MS = 200;
+const CONNECT_TIMEOUT_MS = 30000;
+
+let current: vscode.Terminal | undefined;
+
+/**
+ * QEMU arguments (for after `--`) that put the guest's first UART on a TCP
+ * socket chardev the serial terminal connects to. They go first after `--`
+ * so the socket is the first `-serial` QEMU sees.
+ * `wait=off` lets QEMU boot without a client: a `wait=on` server blocks its
+ * startup until the terminal connects, and the terminal may never open.
+ */
+export function serialChardevArgs(port: number): string[] {
+    return [
+        '-chardev', `socket,id=${CHARDEV_ID},host=127.0.0.1,port=${port},server=on,wait=off`,
+        '-serial', `chardev:${CHARDEV_ID}`
+    ];
+}
+
+/**
+ * Opens an interactive terminal on the QEMU serial socket at `port`: guest
+ * output (ANSI colors included) is rendered in the terminal, keystrokes go
+ * to the guest UART, and VS Code's own scrollback and find work as usual.
+ * The terminal stays open after the guest exits so its log can be read.
+ */
+export function openSerialTerminal(name: string, port: number): vscode.Terminal {
+    // One serial terminal at a time; the previous run's guest is gone.
+    // Disposing one the user already closed is a no-op.
+    current?.dispose();
+    const pty = new SerialPseudoterminal(port);
+    const terminal = vscode.window.createTerminal({ name, pty, iconPath: new vscode.ThemeIcon('terminal') });
+    terminal.show(true);
+    current = terminal;
+    return terminal;
+}
+
+class SerialPseudoterminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    readonly onDidWrite = this.writeEmitter.event;
+    private socket: net.Socket | undefined;
+    private closed = false;
+    private lastWasCR = false;
+
+    constructor(private readonly port: number) { }
+
+    open(): void {
+        this.writeEmitter.fire(`\x1b[2m[serial] connecting to 127.0.0.1:${this.port}...\x1b[0m\r\n`);
+        this.connect(Date.now());
+    }
+
+    close(): void {
+        this.closed = true;
+        this.socket?.destroy();
+        this.socket = undefined;
+    }
+
+    handleInput(data: string): void {
+        this.socket?.write(Buffer.from(data, 'utf8'));
+    }
+
+    private connect(startedAt: number): void {
+        if (this.closed) {
+            return;
+        }
+        const socket = net.connect(this.port, '127.0.0.1');
+        let connected = false;
+        socket.once('connect', () => {
+            connected = true;
+            this.socket = socket;
+            this.writeEmitter.fire('\x1b[2m[serial] connected\x1b[0m\r\n');
+        });
+        socket.on('data', chunk => this.writeEmitter.fire(this.normalizeNewlines(chunk.toString('utf8'))));
+        socket.once('error', () => { /* handled by close */ });
+        socket.once('close', () => {
+            if (this.closed) {
+                return;
+            }
+            if (connected) {
+                this.socket = undefined;
+                this.writeEmitter.fire('\r\n\x1b[2m[serial] disconnected — the guest has stopped\x1b[0m\r\n');
+                return;
+            }
+            // QEMU has not opened the socket yet; keep trying for a while.
+            if (Date.now() - startedAt < CONNECT_TIMEOUT_MS) {
+                setTimeout(() => this.connect(startedAt), CONNECT_RETRY_MS);
+            } else {
+                this.writeEmitter.fire(`\x1b[31m[serial] could not connect to port ${this.port}\x1b[0m\r\n`);
+            }
+        });
+    }
+
+    // Kernels usually print bare "\n"; the terminal needs "\r\n" to return
+    // to column 0. A "\r" at the end of one chunk pairs with a "\n" at the
+    // start of the next.
+    private normalizeNewlines(text: string): string {
+        let out = '';
+        for (const ch of text) {
+            if (ch === '\n' && !this.lastWasCR) {
+                out += '\r';
+            }
+            out += ch;
+            this.lastWasCR = ch === '\r';
+        }
+        return out;
+    }
+}
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import { readElf, ElfFile, ElfSymbol, EM_AARCH64, EM_X86_64, SHF_ALLOC, STT_FUNC, STT_OBJECT } from './elf';
+
+export interface SymbolLocation {
+    symbol: ElfSymbol;
+    /** Byte offset of the address into the symbol. */
+    offset: number;
+}
+
+/**
+ * Name and address lookups over a kernel ELF's symbol table, built once per
+ * file and shared through getSymbolIndex.
+ */
+export class SymbolIndex {
+    private readonly byName = new Map<string, ElfSymbol>();
+    /** FUNC/OBJECT symbols in allocated sections, sorted by address. */
+    private readonly byAddress: ElfSymbol[];
+
+    constructor(readonly elfPath: string, readonly elf: ElfFile) {
+        for (const sym of elf.symbols) {
+            // First definition wins; later duplicates are local aliases.
+            if (sym.name && sym.sectionIndex !== 0 && !this.byName.has(sym.name)) {
+                this.byName.set(sym.name, sym);
+            }
+        }
+        this.byAddress = elf.symbols
+            .filter(s => (s.type === STT_FUNC || s.type === STT_OBJECT) && s.name &&
+                (elf.sections[s.sectionIndex]?.flags ?? 0) & SHF_ALLOC)
+            .sort((a, b) => (a.value < b.value ? -1 : a.value > b.value ? 1 : 0));
+    }
+
+    /** `x64`, `arm64`, or undefined for any other e_machine. */
+    get arch(): string | undefined {
+        switch (this.elf.machine) {
+            case EM_X86_64: return 'x64';
+            case EM_AARCH64: return 'arm64';
+            default: return undefined;
+        }
+    }
+
+    get size(): number {
+        return this.byName.size;
+    }
+
+    lookup(name: string): ElfSymbol | undefined {
+        return this.byName.get(name);
+    }
+
+    /** Address of a defined symbol, or undefined when it is not in the image. */
+    resolveAddress(name: string): bigint | undefined {
+        return this.byName.get(name)?.value;
+    }
+
+    /** All symbol names matching `predicate`, e.g. for partial-name searches. */
+    findNames(predicate: (name: string) => boolean): string[] {
+        const out: string[] = [];
+        for (const name of this.byName.keys()) {
+            if (predicate(name)) {
+                out.push(name);
+            }
+        }
+        return out;
+    }
+
+    /**
+     * The symbol containing `address`: the closest one at or below it, as
+     * long as the address falls within its size (or, for size-less symbols,
+     * before the next symbol).
+     */
+    findByAddress(address: bigint): SymbolLocation | undefined {
+        const list = this.byAddress;
+        let lo = 0;
+        let hi = list.length - 1;
+        let found = -1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (list[mid].value <= address) {
+                found = mid;
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
+            }
+        }
+        if (found < 0) {
+            return undefined;
+        }
+        const symbol = list[found];
+        const offset = Number(address - symbol.value);
+        const end = symbol.size > 0
+            ? symbol.value + BigInt(symbol.size)
+            : (found + 1 < list.length ? list[found + 1].value : symbol.value + 1n);
+        return address < end ? { symbol, offset } : undefined;
+    }
+}
+
+interface CacheEntry {
+    mtimeMs: number;
+    size: number;
+    index: SymbolIndex;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Returns the symbol index for `elfPath`, re-reading the file only when its
+ * mtime or size changed since the last call (i.e. after a rebuild).
+ */
+export function getSymbolIndex(elfPath: string): SymbolIndex {
+    const stat = fs.statSync(elfPath);
+    const cached = cache.get(elfPath);
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+        return cached.index;
+    }
+    const index = new SymbolIndex(elfPath, readElf(elfPath));
+    cache.set(elfPath, { mtimeMs: stat.mtimeMs, size: stat.size, index });
+    return index;
+}
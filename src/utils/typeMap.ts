@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getSymbolIndex, SymbolIndex } from './symbolIndex';
+import { demangleNativeAotSymbol, managedTypeName } from './nativeAotNames';
+
+/** Bumped when the JSON layout changes; the gdb printers check it. */
+export const TYPE_MAP_VERSION = 1;
+
+/**
+ * MethodTable address → managed type name. Every object starts with its
+ * MethodTable pointer (`m_pEEType`), so this is what lets the debugger show
+ * an `Object` reference as the type it really is.
+ */
+export interface TypeMap {
+    version: number;
+    elfPath: string;
+    elfMtimeMs: number;
+    /** "0x…" MethodTable address → dotted type name. */
+    methodTables: { [address: string]: string };
+}
+
+/** `<elf dir>/<kernel>.type-map.json`, next to the image it describes. */
+export function typeMapPath(elfPath: string): string {
+    return path.join(path.dirname(elfPath), `${path.basename(elfPath, '.elf')}.type-map.json`);
+}
+
+export function buildTypeMap(symbols: SymbolIndex, elfMtimeMs: number): TypeMap {
+    const methodTables: { [address: string]: string } = {};
+    for (const name of symbols.findNames(n => n.startsWith('_ZTV'))) {
+        const typeName = managedTypeName(demangleNativeAotSymbol(name));
+        const address = symbols.resolveAddress(name);
+        if (typeName && address) {
+            methodTables[`0x${address.toString(16)}`] = typeName;
+        }
+    }
+    return { version: TYPE_MAP_VERSION, elfPath: symbols.elfPath, elfMtimeMs, methodTables };
+}
+
+/**
+ * Writes the type map for `elfPath` unless an up-to-date one is already on
+ * disk (builds write it; sessions call this in case the ELF came from
+ * elsewhere). Returns the map's path.
+ */
+export function ensureTypeMap(elfPath: string): string {
+    const mapPath = typeMapPath(elfPath);
+    const elfMtimeMs = fs.statSync(elfPath).mtimeMs;
+    try {
+        const existing = JSON.parse(fs.readFileSync(mapPath, 'utf8')) as TypeMap;
+        if (existing.version === TYPE_MAP_VERSION && existing.elfMtimeMs === elfMtimeMs) {
+            return mapPath;
+        }
+    } catch {
+        // Missing or unreadable — regenerate.
+    }
+    fs.writeFileSync(mapPath, JSON.stringify(buildTypeMap(getSymbolIndex(elfPath), elfMtimeMs)));
+    return mapPath;
+}
+
+/** The gdb/MI command that hands a map to cosmos_prettyprint.py. */
+export function typeMapLoadCommand(mapPath: string): string {
+    // Forward slashes work on Windows too and need no escaping in Python;
+    // the literal is then quoted once more for MI.
+    const literal = JSON.stringify(mapPath.replace(/\\/g, '/'));
+    return `interpreter-exec console "python cosmos_load_type_map(${literal.replace(/\\/g, '\\\\').replace(/"/g, '\\"')})"`;
+}
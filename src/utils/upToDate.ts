@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { resolveKernelElf, resolveKernelIso } from './kernelArtifacts';
+
+export interface UpToDateResult {
+    upToDate: boolean;
+    /** Human-readable explanation, shown in the build channel and prompts. */
+    reason: string;
+    isoPath?: string;
+    elfPath?: string;
+}
+
+// Inputs that change what `cosmos build` produces: C# sources, MSBuild
+// files and the native sources compiled through GCCCompilerFlags/yasm.
+const INPUT_EXTENSIONS = new Set([
+    '.cs', '.csproj', '.props', '.targets', '.c', '.h', '.s', '.S', '.asm', '.inc'
+]);
+
+// Build outputs and tool state — never inputs, and often large.
+const SKIP_DIRS = new Set(['bin', 'obj', 'artifacts', 'node_modules', '.git', '.vs', '.vscode']);
+
+/**
+ * Compares the newest build input under `projectDir` (sources, csproj,
+ * `.cosmos/config.json`) with the ISO in `output-<arch>` and the ELF from
+ * resolveKernelElf. The kernel is stale when either artifact is missing or
+ * older than any input.
+ */
+export function checkKernelUpToDate(
+    workspaceFolder: string,
+    projectDir: string,
+    projectName: string,
+    arch: string,
+    configuration?: string
+): UpToDateResult {
+    const isoPath = resolveKernelIso(projectDir, arch);
+    const elfPath = resolveKernelElf(workspaceFolder, projectDir, projectName, arch, configuration);
+    if (!isoPath) {
+        return { upToDate: false, reason: `no ISO in output-${arch}`, elfPath };
+    }
+    if (!elfPath) {
+        return { upToDate: false, reason: `no ${configuration ?? 'Debug'} ELF for ${projectName} (${arch})`, isoPath };
+    }
+
+    const artifactTime = Math.min(mtimeOf(isoPath), mtimeOf(elfPath));
+    const newest = findNewestInput(projectDir);
+    if (newest && newest.mtime > artifactTime) {
+        return {
+            upToDate: false,
+            reason: `${path.relative(projectDir, newest.file)} changed since the last build`,
+            isoPath,
+            elfPath
+        };
+    }
+    return { upToDate: true, reason: 'up to date', isoPath, elfPath };
+}
+
+function findNewestInput(projectDir: string): { file: string; mtime: number } | undefined {
+    let newest: { file: string; mtime: number } | undefined;
+    const consider = (file: string) => {
+        const mtime = mtimeOf(file);
+        if (!newest || mtime > newest.mtime) {
+            newest = { file, mtime };
+        }
+    };
+
+    const configPath = path.join(projectDir, '.cosmos', 'config.json');
+    if (fs.existsSync(configPath)) {
+        consider(configPath);
+    }
+
+    const walk = (dir: string) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (!SKIP_DIRS.has(entry.name) && !entry.name.startsWith('output-') && !entry.name.startsWith('.')) {
+                    walk(full);
+                }
+            } else if (entry.isFile() && INPUT_EXTENSIONS.has(path.extname(entry.name))) {
+                consider(full);
+            }
+        }
+    };
+    walk(projectDir);
+    return newest;
+}
+
+function mtimeOf(file: string): number {
+    try {
+        return fs.statSync(file).mtimeMs;
+    } catch {
+        return 0;
+    }
+}
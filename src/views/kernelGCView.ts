@@ -54,7 +54,8 @@ export class KernelGCProvider implements vscode.TreeDataProvider<vscode.TreeItem
 
     private stats: GCStats | undefined;
     private message: string | undefined;
-    private snapshotAddr: bigint | undefined;
+    // Snapshot buffer per debug session; the view shows the focused one.
+    private readonly snapshotAddrs = new Map<string, bigint>();
     private pollTimer: NodeJS.Timeout | undefined;
     private pollBusy = false;
 
@@ -70,12 +71,12 @@ export class KernelGCProvider implements vscode.TreeDataProvider<vscode.TreeItem
      * update is the only way the buffer gets data and that runs without
      * needing the inferior paused.
      */
-    async captureSnapshotAddress(): Promise<boolean> {
-        if (this.snapshotAddr !== undefined) {
+    async captureSnapshotAddress(session: vscode.DebugSession): Promise<boolean> {
+        if (this.snapshotAddrs.has(session.id)) {
             return true;
         }
         const log = getOutputChannel();
-        const reader = getLiveReader();
+        const reader = getLiveReader(session.id);
         if (!reader || reader.gcSnapshotStaticsAddr === undefined) {
             return false;
         }
@@ -92,7 +93,7 @@ export class KernelGCProvider implements vscode.TreeDataProvider<vscode.TreeItem
                 this._onDidChange.fire();
                 return false;
             }
-            this.snapshotAddr = addr;
+            this.snapshotAddrs.set(session.id, addr);
             log.appendLine(`[kernel-gc] snapshot buffer at 0x${addr.toString(16)}`);
             this.message = 'Polling GC snapshot…';
             this._onDidChange.fire();
@@ -119,10 +120,31 @@ export class KernelGCProvider implements vscode.TreeDataProvider<vscode.TreeItem
         }
     }
 
-    reset(): void {
-        this.stopPolling();
-        this.snapshotAddr = undefined;
-        this.stats = undefined;
+    /** Forgets a finished session; the view goes idle after the last one. */
+    endSession(sessionId: string): void {
+        this.snapshotAddrs.delete(sessionId);
+        if (this.snapshotAddrs.size === 0) {
+            this.stopPolling();
+            this.setMessage('Debug session ended.');
+        }
+    }
+
+    /** Drops a restarted kernel's snapshot address; the new boot has its own. */
+    restartSession(sessionId: string): void {
+        this.snapshotAddrs.delete(sessionId);
+        this.setMessage('Kernel restarted — waiting for the live snapshot…');
+    }
+
+    /** Switches the view to the kernel of the focused debug session. */
+    followActiveSession(): void {
+        if (this.snapshotAddrs.size === 0) {
+            return;
+        }
+        const sessionId = vscode.debug.activeDebugSession?.id;
+        this.setMessage(sessionId !== undefined && this.snapshotAddrs.has(sessionId)
+            ? 'Polling GC snapshot…'
+            : 'No live snapshot for the focused debug session.');
+        void this.pollOnce();
     }
 
     async refresh(): Promise<void> {
@@ -134,16 +156,18 @@ export class KernelGCProvider implements vscode.TreeDataProvider<vscode.TreeItem
         if (this.pollBusy) {
             return;
         }
-        if (this.snapshotAddr === undefined) {
+        const sessionId = vscode.debug.activeDebugSession?.id;
+        const snapshotAddr = sessionId !== undefined ? this.snapshotAddrs.get(sessionId) : undefined;
+        if (snapshotAddr === undefined) {
             return;
         }
-        const reader = getLiveReader();
+        const reader = getLiveReader(sessionId);
         if (!reader) {
             return;
         }
         this.pollBusy = true;
         try {
-            const buf = await reader.readVirtual(this.snapshotAddr, GC_SNAPSHOT_SIZE);
+            const buf = await reader.readVirtual(snapshotAddr, GC_SNAPSHOT_SIZE);
             const parsed = parseGCSnapshot(buf);
             if (!parsed) {
                 this.message = 'GC snapshot buffer not yet populated.';
@@ -268,7 +292,7 @@ function parseGCSnapshot(buf: Buffer): GCStats | null {
 export class KernelGCTrackerFactory implements vscode.DebugAdapterTrackerFactory {
     constructor(private readonly provider: KernelGCProvider) { }
 
-    createDebugAdapterTracker(_session: vscode.DebugSession): vscode.DebugAdapterTracker {
+    createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
         const provider = this.provider;
         let captureDone = false;
         let retryTimer: NodeJS.Timeout | undefined;
@@ -277,7 +301,7 @@ export class KernelGCTrackerFactory implements vscode.DebugAdapterTrackerFactory
             if (captureDone) {
                 return;
             }
-            const ok = await provider.captureSnapshotAddress();
+            const ok = await provider.captureSnapshotAddress(session);
             if (ok) {
                 captureDone = true;
                 provider.startPolling(1000);
@@ -301,9 +325,14 @@ export class KernelGCTrackerFactory implements vscode.DebugAdapterTrackerFactory
                         clearInterval(retryTimer);
                         retryTimer = undefined;
                     }
-                    provider.reset();
-                    provider.setMessage('Debug session ended.');
+                    provider.endSession(session.id);
                     captureDone = false;
+                } else if (msg.event === 'cosmos/restarted') {
+                    provider.restartSession(session.id);
+                    captureDone = false;
+                    if (!retryTimer) {
+                        retryTimer = setInterval(tryCapture, 1500);
+                    }
                 }
             }
         };
@@ -97,7 +97,8 @@ export class KernelMemoryProvider implements vscode.TreeDataProvider<vscode.Tree
 
     private stats: MemoryStats | undefined;
     private message: string | undefined;
-    private snapshotAddr: bigint | undefined;
+    // Snapshot buffer per debug session; the view shows the focused one.
+    private readonly snapshotAddrs = new Map<string, bigint>();
     private pollTimer: NodeJS.Timeout | undefined;
     private pollBusy = false;
     private extents: PageExtent[] | undefined;
@@ -121,12 +122,12 @@ export class KernelMemoryProvider implements vscode.TreeDataProvider<vscode.Tree
         this._onDidChangeTreeData.fire();
     }
 
-    async captureSnapshotAddress(): Promise<boolean> {
-        if (this.snapshotAddr !== undefined) {
+    async captureSnapshotAddress(session: vscode.DebugSession): Promise<boolean> {
+        if (this.snapshotAddrs.has(session.id)) {
             return true;
         }
         const log = getOutputChannel();
-        const reader = getLiveReader();
+        const reader = getLiveReader(session.id);
         if (!reader || reader.memorySnapshotStaticsAddr === undefined) {
             return false;
         }
@@ -144,7 +145,7 @@ export class KernelMemoryProvider implements vscode.TreeDataProvider<vscode.Tree
         this._onDidChangeTreeData.fire();
                 return false;
             }
-            this.snapshotAddr = addr;
+            this.snapshotAddrs.set(session.id, addr);
             log.appendLine(`[kernel-memory] snapshot buffer at 0x${addr.toString(16)}`);
             this.message = 'Polling memory snapshot…';
             this._onDidUpdate.fire(this.getLatest());
@@ -172,12 +173,31 @@ export class KernelMemoryProvider implements vscode.TreeDataProvider<vscode.Tree
         }
     }
 
-    reset(): void {
-        this.stopPolling();
-        this.snapshotAddr = undefined;
-        this.stats = undefined;
-        this.extents = undefined;
-        this.extentsError = undefined;
+    /** Forgets a finished session; the view goes idle after the last one. */
+    endSession(sessionId: string): void {
+        this.snapshotAddrs.delete(sessionId);
+        if (this.snapshotAddrs.size === 0) {
+            this.stopPolling();
+            this.setMessage('Debug session ended.');
+        }
+    }
+
+    /** Drops a restarted kernel's snapshot address; the new boot has its own. */
+    restartSession(sessionId: string): void {
+        this.snapshotAddrs.delete(sessionId);
+        this.setMessage('Kernel restarted — waiting for the live snapshot…');
+    }
+
+    /** Switches the view to the kernel of the focused debug session. */
+    followActiveSession(): void {
+        if (this.snapshotAddrs.size === 0) {
+            return;
+        }
+        const sessionId = vscode.debug.activeDebugSession?.id;
+        this.setMessage(sessionId !== undefined && this.snapshotAddrs.has(sessionId)
+            ? 'Polling memory snapshot…'
+            : 'No live snapshot for the focused debug session.');
+        void this.pollOnce();
     }
 
     async refresh(): Promise<void> {
@@ -188,10 +208,12 @@ export class KernelMemoryProvider implements vscode.TreeDataProvider<vscode.Tree
         if (this.pollBusy) {
             return;
         }
-        if (this.snapshotAddr === undefined) {
+        const sessionId = vscode.debug.activeDebugSession?.id;
+        const snapshotAddr = sessionId !== undefined ? this.snapshotAddrs.get(sessionId) : undefined;
+        if (snapshotAddr === undefined) {
             return;
         }
-        const reader = getLiveReader();
+        const reader = getLiveReader(sessionId);
         if (!reader) {
             return;
         }
@@ -203,7 +225,7 @@ export class KernelMemoryProvider implements vscode.TreeDataProvider<vscode.Tree
             // tiny gap between attempts lets the writer finish.
             let parsed: MemoryStats | null = null;
             for (let attempt = 0; attempt < 3; attempt++) {
-                const buf = await reader.readVirtual(this.snapshotAddr, MEM_SNAPSHOT_SIZE);
+                const buf = await reader.readVirtual(snapshotAddr, MEM_SNAPSHOT_SIZE);
                 parsed = parseMemorySnapshot(buf);
                 if (parsed) break;
                 if (attempt < 2) {
@@ -408,7 +430,7 @@ function parseMemorySnapshot(buf: Buffer): MemoryStats | null {
 export class KernelMemoryTrackerFactory implements vscode.DebugAdapterTrackerFactory {
     constructor(private readonly provider: KernelMemoryProvider) { }
 
-    createDebugAdapterTracker(_session: vscode.DebugSession): vscode.DebugAdapterTracker {
+    createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
         const provider = this.provider;
         let captureDone = false;
         let retryTimer: NodeJS.Timeout | undefined;
@@ -417,7 +439,7 @@ export class KernelMemoryTrackerFactory implements vscode.DebugAdapterTrackerFac
             if (captureDone) {
                 return;
             }
-            const ok = await provider.captureSnapshotAddress();
+            const ok = await provider.captureSnapshotAddress(session);
             if (ok) {
                 captureDone = true;
                 provider.startPolling(1000);
@@ -441,9 +463,14 @@ export class KernelMemoryTrackerFactory implements vscode.DebugAdapterTrackerFac
                         clearInterval(retryTimer);
                         retryTimer = undefined;
                     }
-                    provider.reset();
-                    provider.setMessage('Debug session ended.');
+                    provider.endSession(session.id);
+                    captureDone = false;
+                } else if (msg.event === 'cosmos/restarted') {
+                    provider.restartSession(session.id);
                     captureDone = false;
+                    if (!retryTimer) {
+                        retryTimer = setInterval(tryCapture, 1500);
+                    }
                 }
             }
         };
@@ -34,6 +34,18 @@ export class KernelThreadItem extends vscode.TreeItem {
     }
 }
 
+/** One CPU's kernel threads when the view is grouped by CPU. */
+export class KernelCpuItem extends vscode.TreeItem {
+    constructor(readonly cpuId: number, readonly threads: KernelThreadInfo[]) {
+        super(`CPU ${cpuId}`, vscode.TreeItemCollapsibleState.Expanded);
+        const running = threads.find(t => t.state === 'Running');
+        const count = `${threads.length} thread${threads.length === 1 ? '' : 's'}`;
+        this.description = running ? `${count} · running #${running.id}` : count;
+        this.contextValue = 'kernelCpu';
+        this.iconPath = new vscode.ThemeIcon('server-process');
+    }
+}
+
 function iconForState(state: string): string {
     switch (state) {
         case 'Running':  return 'debug-start';
@@ -56,15 +68,17 @@ function iconForState(state: string): string {
  * enough for `(unsigned long long)CosmosDbg_GetSnapshotAddr()`). After
  * that we never evaluate again.
  */
-export class KernelThreadsProvider implements vscode.TreeDataProvider<KernelThreadItem> {
+export class KernelThreadsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
     private readonly _onDidChange = new vscode.EventEmitter<void>();
     readonly onDidChangeTreeData = this._onDidChange.event;
 
     private threads: KernelThreadInfo[] = [];
     private message: string | undefined;
-    private snapshotAddr: bigint | undefined;
+    // Snapshot buffer per debug session; the view shows the focused one.
+    private readonly snapshotAddrs = new Map<string, bigint>();
     private pollTimer: NodeJS.Timeout | undefined;
     private pollBusy = false;
+    private groupByCpu = false;
 
     setMessage(msg: string | undefined): void {
         this.message = msg;
@@ -72,6 +86,11 @@ export class KernelThreadsProvider implements vscode.TreeDataProvider<KernelThre
         this._onDidChange.fire();
     }
 
+    setGroupByCpu(enabled: boolean): void {
+        this.groupByCpu = enabled;
+        this._onDidChange.fire();
+    }
+
     /**
      * Captures the kernel-side snapshot buffer address. Called once at
      * the first `stopped` event during a debug session.
@@ -83,7 +102,7 @@ export class KernelThreadsProvider implements vscode.TreeDataProvider<KernelThre
      * a later `stopped` event.
      */
     async captureSnapshotAddress(session: vscode.DebugSession): Promise<boolean> {
-        if (this.snapshotAddr !== undefined) {
+        if (this.snapshotAddrs.has(session.id)) {
             return true;
         }
         const log = getOutputChannel();
@@ -92,7 +111,7 @@ export class KernelThreadsProvider implements vscode.TreeDataProvider<KernelThre
         // kernel's static storage via QMP. Avoids the gdb-infcall race
         // entirely and works even before the user hits a breakpoint, so
         // long as DebugLiveSnapshot.Initialize() has run.
-        const reader = getLiveReader();
+        const reader = getLiveReader(session.id);
         if (!reader) {
             log.appendLine(`[kernel-threads] no live reader registered — QMP not connected for this session`);
         } else if (reader.snapshotStaticsAddr === undefined) {
@@ -106,7 +125,7 @@ export class KernelThreadsProvider implements vscode.TreeDataProvider<KernelThre
                     const hi = BigInt(ptrBuf.readUInt32LE(4));
                     const addr = (hi << 32n) | lo;
                     if (addr !== 0n) {
-                        this.snapshotAddr = addr;
+                        this.snapshotAddrs.set(session.id, addr);
                         log.appendLine(`[kernel-threads] snapshot buffer at 0x${addr.toString(16)} (via statics symbol)`);
                         this.message = 'Polling kernel snapshot…';
                         this._onDidChange.fire();
@@ -166,7 +185,7 @@ export class KernelThreadsProvider implements vscode.TreeDataProvider<KernelThre
             this._onDidChange.fire();
             return false;
         }
-        this.snapshotAddr = addr;
+        this.snapshotAddrs.set(session.id, addr);
         log.appendLine(`[kernel-threads] snapshot buffer at 0x${addr.toString(16)}`);
         this.message = 'Polling kernel snapshot…';
         this._onDidChange.fire();
@@ -189,10 +208,31 @@ export class KernelThreadsProvider implements vscode.TreeDataProvider<KernelThre
         }
     }
 
-    reset(): void {
-        this.stopPolling();
-        this.snapshotAddr = undefined;
-        this.threads = [];
+    /** Forgets a finished session; the view goes idle after the last one. */
+    endSession(sessionId: string): void {
+        this.snapshotAddrs.delete(sessionId);
+        if (this.snapshotAddrs.size === 0) {
+            this.stopPolling();
+            this.setMessage('Debug session ended.');
+        }
+    }
+
+    /** Drops a restarted kernel's snapshot address; the new boot has its own. */
+    restartSession(sessionId: string): void {
+        this.snapshotAddrs.delete(sessionId);
+        this.setMessage('Kernel restarted — waiting for the live snapshot…');
+    }
+
+    /** Switches the view to the kernel of the focused debug session. */
+    followActiveSession(): void {
+        if (this.snapshotAddrs.size === 0) {
+            return;
+        }
+        const sessionId = vscode.debug.activeDebugSession?.id;
+        this.setMessage(sessionId !== undefined && this.snapshotAddrs.has(sessionId)
+            ? 'Polling kernel snapshot…'
+            : 'No live snapshot for the focused debug session.');
+        void this.pollOnce();
     }
 
     /**
@@ -208,16 +248,18 @@ export class KernelThreadsProvider implements vscode.TreeDataProvider<KernelThre
         if (this.pollBusy) {
             return;
         }
-        if (this.snapshotAddr === undefined) {
+        const sessionId = vscode.debug.activeDebugSession?.id;
+        const snapshotAddr = sessionId !== undefined ? this.snapshotAddrs.get(sessionId) : undefined;
+        if (snapshotAddr === undefined) {
             return;
         }
-        const reader = getLiveReader();
+        const reader = getLiveReader(sessionId);
         if (!reader) {
             return;
         }
         this.pollBusy = true;
         try {
-            const buf = await reader.readVirtual(this.snapshotAddr, SNAPSHOT_SIZE);
+            const buf = await reader.readVirtual(snapshotAddr, SNAPSHOT_SIZE);
             const parsed = parseSnapshot(buf);
             if (!parsed) {
                 this.message = 'Snapshot buffer not yet populated (bad magic).';
@@ -250,15 +292,25 @@ export class KernelThreadsProvider implements vscode.TreeDataProvider<KernelThre
         return lines.join('\n');
     }
 
-    getTreeItem(item: KernelThreadItem): vscode.TreeItem {
+    getTreeItem(item: vscode.TreeItem): vscode.TreeItem {
         return item;
     }
 
-    getChildren(): KernelThreadItem[] {
+    getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+        if (element instanceof KernelCpuItem) {
+            return element.threads.map(t => new KernelThreadItem(t));
+        }
         if (this.threads.length === 0 && this.message) {
             const placeholder = new vscode.TreeItem(this.message, vscode.TreeItemCollapsibleState.None);
             placeholder.iconPath = new vscode.ThemeIcon('info');
-            return [placeholder as KernelThreadItem];
+            return [placeholder];
+        }
+        if (this.groupByCpu) {
+            const byCpu = new Map<number, KernelThreadInfo[]>();
+            for (const t of this.threads) {
+                byCpu.set(t.cpuId, [...(byCpu.get(t.cpuId) ?? []), t]);
+            }
+            return [...byCpu.keys()].sort((a, b) => a - b).map(cpu => new KernelCpuItem(cpu, byCpu.get(cpu)!));
         }
         return this.threads.map(t => new KernelThreadItem(t));
     }
@@ -355,9 +407,14 @@ export class KernelThreadsTrackerFactory implements vscode.DebugAdapterTrackerFa
                         clearInterval(retryTimer);
                         retryTimer = undefined;
                     }
-                    provider.reset();
-                    provider.setMessage('Debug session ended.');
+                    provider.endSession(session.id);
                     captureDone = false;
+                } else if (msg.event === 'cosmos/restarted') {
+                    provider.restartSession(session.id);
+                    captureDone = false;
+                    if (!retryTimer) {
+                        retryTimer = setInterval(tryCapture, 1500);
+                    }
                 }
             }
         };
@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { NetworkSession } from '../utils/networkCapture';
+import { LINKTYPE_ETHERNET, PacketSummary, decodeEthernetFrame, parsePcap } from '../utils/pcap';
+
+// Only the tail of a long capture is listed; the pcap itself has everything.
+const MAX_PACKETS_SHOWN = 500;
+const POLL_INTERVAL_MS = 2000;
+
+interface DecodedPacket {
+    index: number;
+    timestampMs: number;
+    length: number;
+    summary: PacketSummary;
+}
+
+class SectionItem extends vscode.TreeItem {
+    constructor(readonly section: 'ports' | 'capture', label: string, description: string, icon: string) {
+        super(label, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = description;
+        this.iconPath = new vscode.ThemeIcon(icon);
+        this.contextValue = section === 'capture' ? 'networkCapture' : 'networkPorts';
+    }
+}
+
+class PacketItem extends vscode.TreeItem {
+    constructor(packet: DecodedPacket, firstTimestampMs: number) {
+        const { summary } = packet;
+        super(`${summary.source} → ${summary.destination}`, vscode.TreeItemCollapsibleState.None);
+        const elapsed = ((packet.timestampMs - firstTimestampMs) / 1000).toFixed(3);
+        this.description = `${summary.protocol} · ${summary.info}`;
+        this.tooltip = `#${packet.index} at +${elapsed}s · ${packet.length} bytes\n${summary.protocol}: ${summary.info}`;
+        this.iconPath = new vscode.ThemeIcon(iconForProtocol(summary.protocol));
+    }
+}
+
+function iconForProtocol(protocol: string): string {
+    switch (protocol) {
+        case 'ARP':  return 'search';
+        case 'DHCP': return 'gear';
+        case 'TCP':  return 'plug';
+        case 'UDP':  return 'broadcast';
+        case 'ICMP': return 'pulse';
+        default:     return 'circle-small';
+    }
+}
+
+/**
+ * Network view: the forwarded ports of the last launched kernel and a
+ * decoded summary of the packets its NIC sent and received, read from the
+ * filter-dump pcap. The capture file is re-read while the view is visible
+ * and the file keeps growing.
+ */
+export class NetworkViewProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this._onDidChange.event;
+
+    private session: NetworkSession | undefined;
+    private packets: DecodedPacket[] = [];
+    private totalPackets = 0;
+    private captureSize = -1;
+    private captureError: string | undefined;
+    private pollTimer: NodeJS.Timeout | undefined;
+
+    setSession(session: NetworkSession | undefined): void {
+        this.session = session;
+        this.packets = [];
+        this.totalPackets = 0;
+        this.captureSize = -1;
+        this.captureError = undefined;
+        this.refresh();
+    }
+
+    /** Polls the capture file while the view is on screen. */
+    setVisible(visible: boolean): void {
+        if (visible && !this.pollTimer) {
+            this.pollTimer = setInterval(() => this.reloadCapture(), POLL_INTERVAL_MS);
+            this.refresh();
+        } else if (!visible && this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    refresh(): void {
+        this.captureSize = -1;
+        this.reloadCapture();
+        this._onDidChange.fire();
+    }
+
+    get capturePath(): string | undefined {
+        return this.session?.capturePath;
+    }
+
+    dispose(): void {
+        this.setVisible(false);
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+        const session = this.session;
+        if (!session) {
+            const item = new vscode.TreeItem('Run or debug the kernel to see its network.');
+            item.iconPath = new vscode.ThemeIcon('info');
+            return [item];
+        }
+        if (!element) {
+            const ports = new SectionItem(
+                'ports', 'Forwarded Ports',
+                session.forwards.length ? `${session.forwards.length}` : 'none', 'ports-forward-icon'
+            );
+            const capture = new SectionItem(
+                'capture', 'Capture',
+                session.capturePath ? `${this.totalPackets} packets` : 'off', 'record'
+            );
+            if (session.capturePath) {
+                capture.tooltip = session.capturePath;
+            }
+            return [ports, capture];
+        }
+        if (element instanceof SectionItem && element.section === 'ports') {
+            if (session.forwards.length === 0) {
+                return [new vscode.TreeItem('No port forwards (enable Port Forwarding in Project Properties)')];
+            }
+            return session.forwards.map(f => {
+                const item = new vscode.TreeItem(`localhost:${f.hostPort} → guest:${f.guestPort}`);
+                item.description = f.protocol.toUpperCase();
+                item.iconPath = new vscode.ThemeIcon('arrow-right');
+                return item;
+            });
+        }
+        if (element instanceof SectionItem && element.section === 'capture') {
+            if (!session.capturePath) {
+                return [new vscode.TreeItem('Capture off (enable Capture Packets in Project Properties)')];
+            }
+            if (this.captureError) {
+                const item = new vscode.TreeItem(this.captureError);
+                item.iconPath = new vscode.ThemeIcon('warning');
+                return [item];
+            }
+            if (this.packets.length === 0) {
+                return [new vscode.TreeItem(`No packets yet in ${path.basename(session.capturePath)}`)];
+            }
+            const first = this.packets[0].timestampMs;
+            const items: vscode.TreeItem[] = this.packets.map(p => new PacketItem(p, first));
+            if (this.totalPackets > this.packets.length) {
+                const more = new vscode.TreeItem(`${this.totalPackets - this.packets.length} earlier packets not shown`);
+                more.iconPath = new vscode.ThemeIcon('ellipsis');
+                items.unshift(more);
+            }
+            return items;
+        }
+        return [];
+    }
+
+    /** Plain-text dump of the listed packets, for the copy command. */
+    serialize(): string {
+        const first = this.packets[0]?.timestampMs ?? 0;
+        return this.packets.map(p => {
+            const t = ((p.timestampMs - first) / 1000).toFixed(3).padStart(9);
+            const s = p.summary;
+            return `${String(p.index).padStart(5)} ${t}  ${s.protocol.padEnd(5)} ${s.source} → ${s.destination}  ${s.info}`;
+        }).join('\n');
+    }
+
+    private reloadCapture(): void {
+        const capturePath = this.session?.capturePath;
+        if (!capturePath) {
+            return;
+        }
+        let size: number;
+        try {
+            size = fs.statSync(capturePath).size;
+        } catch {
+            // QEMU creates the file once the NIC comes up.
+            return;
+        }
+        if (size === this.captureSize) {
+            return;
+        }
+        this.captureSize = size;
+        try {
+            const pcap = parsePcap(fs.readFileSync(capturePath));
+            if (pcap.linkType !== LINKTYPE_ETHERNET) {
+                throw new Error(`Unsupported link type ${pcap.linkType}`);
+            }
+            this.totalPackets = pcap.records.length;
+            const start = Math.max(0, pcap.records.length - MAX_PACKETS_SHOWN);
+            this.packets = pcap.records.slice(start).map((r, i) => ({
+                index: start + i + 1,
+                timestampMs: r.timestampMs,
+                length: r.originalLength,
+                summary: decodeEthernetFrame(r.data)
+            }));
+            this.captureError = undefined;
+        } catch (err: any) {
+            this.captureError = `Cannot read capture: ${err?.message || err}`;
+        }
+        this._onDidChange.fire();
+    }
+}